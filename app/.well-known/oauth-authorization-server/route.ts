@@ -0,0 +1,14 @@
+import { getPublicOrigin } from '@/lib/public-origin'
+import { OAUTH_CORS_HEADERS, authorizationServerMetadata } from '@/lib/oauth'
+import { NextRequest, NextResponse } from 'next/server'
+
+// GET — RFC 8414 authorization server metadata
+export async function GET(request: NextRequest) {
+  return NextResponse.json(authorizationServerMetadata(getPublicOrigin(request)), {
+    headers: OAUTH_CORS_HEADERS,
+  })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS })
+}
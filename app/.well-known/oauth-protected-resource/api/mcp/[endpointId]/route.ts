@@ -0,0 +1,40 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getPublicOrigin } from '@/lib/public-origin'
+import { endpointUrlFilter, matchEndpointUrl } from '@/lib/endpoint-urls'
+import { OAUTH_CORS_HEADERS, protectedResourceMetadata } from '@/lib/oauth'
+import { NextRequest, NextResponse } from 'next/server'
+
+// GET — RFC 9728 protected-resource metadata for one MCP endpoint.
+// MCP clients find this URL in the WWW-Authenticate challenge of a 401.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  const { endpointId } = await params
+  const filter = endpointUrlFilter(endpointId)
+  const admin = createAdminClient()
+
+  // Either URL during a rotation's grace period
+  const { data: endpoint } = filter
+    ? await admin
+        .from('mcp_endpoints')
+        .select('endpoint_url, previous_endpoint_url, previous_url_expires_at')
+        .or(filter)
+        .maybeSingle()
+    : { data: null }
+
+  if (!endpoint || !matchEndpointUrl(endpoint, endpointId)) {
+    return NextResponse.json(
+      { error: 'Endpoint not found' },
+      { status: 404, headers: OAUTH_CORS_HEADERS }
+    )
+  }
+
+  return NextResponse.json(protectedResourceMetadata(getPublicOrigin(request), endpointId), {
+    headers: OAUTH_CORS_HEADERS,
+  })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS })
+}
@@ -0,0 +1,57 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { evictApiKey } from '@/lib/api-keys'
+import { NextRequest, NextResponse } from 'next/server'
+
+// DELETE — revoke an API key (owners and admins). The row is kept so
+// the dashboard can still show when it was last used.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: apiKey, error } = await admin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .is('revoked_at', null)
+      .select('id, key_hash, revoked_at')
+      .single()
+
+    if (error || !apiKey) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    evictApiKey(apiKey.key_hash)
+
+    return NextResponse.json({ api_key: { id: apiKey.id, revoked_at: apiKey.revoked_at } })
+  } catch (error: any) {
+    console.error('DELETE api key error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,110 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { generateApiKey, parseApiKeyInput } from '@/lib/api-keys'
+import { NextRequest, NextResponse } from 'next/server'
+
+const API_KEY_COLUMNS =
+  'id, name, key_prefix, endpoint_ids, last_used_at, expires_at, created_by, created_at, revoked_at'
+
+// GET — list the organization's API keys (never the secrets)
+export async function GET() {
+  try {
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const { data: apiKeys, error } = await admin
+      .from('api_keys')
+      .select(API_KEY_COLUMNS)
+      .eq('organization_id', membership.organization_id)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ api_keys: apiKeys || [] })
+  } catch (error: any) {
+    console.error('GET api keys error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// POST — create an API key (owners and admins). The key is returned once.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = parseApiKeyInput(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Keys open endpoints without a login, so only owners and admins mint them
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Every scoped endpoint must belong to the org
+    const { data: endpoints } = await admin
+      .from('mcp_endpoints')
+      .select('id')
+      .in('id', parsed.key.endpoint_ids)
+      .eq('organization_id', membership.organization_id)
+
+    if ((endpoints || []).length !== parsed.key.endpoint_ids.length) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    const { key, keyHash, keyPrefix } = generateApiKey()
+
+    const { data: apiKey, error } = await admin
+      .from('api_keys')
+      .insert({
+        ...parsed.key,
+        organization_id: membership.organization_id,
+        key_hash: keyHash,
+        key_prefix: keyPrefix,
+        created_by: authUser.id,
+      })
+      .select(API_KEY_COLUMNS)
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ api_key: apiKey, key })
+  } catch (error: any) {
+    console.error('POST api keys error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
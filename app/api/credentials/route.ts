@@ -2,7 +2,7 @@ import { createServerClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
 import { encrypt } from '@/lib/encryption'
 import { NextRequest, NextResponse } from 'next/server'
-import { nanoid } from 'nanoid'
+import { newEndpointUrl } from '@/lib/endpoint-urls'
 
 // GET — list credentials for the current user's organization
 export async function GET() {
@@ -44,11 +44,14 @@ export async function GET() {
         .from('mcp_endpoints')
         .select('credential_id, endpoint_url, rate_limit, last_accessed_at, created_at')
         .in('credential_id', credentialIds)
+        .order('created_at', { ascending: true })
 
       endpoints = endpointData || []
     }
 
-    // Merge endpoint data into credentials
+    // Merge endpoint data into credentials: the credential's first
+    // endpoint, the one created with it. The connections page lists
+    // every endpoint from /api/endpoints.
     const credentialsWithEndpoints = (credentials || []).map((cred: any) => {
       const endpoint = endpoints.find((e: any) => e.credential_id === cred.id)
       return {
@@ -148,8 +151,7 @@ export async function POST(request: NextRequest) {
     if (credError) throw new Error(`Failed to create credential: ${credError.message}`)
 
     // Auto-generate MCP endpoint
-    const endpointId = nanoid(20)
-    const endpointUrl = `/api/mcp/${endpointId}`
+    const endpointUrl = newEndpointUrl()
 
     const { data: endpoint, error: endpointError } = await admin
       .from('mcp_endpoints')
@@ -278,7 +280,7 @@ export async function PATCH(request: NextRequest) {
   }
 }
 
-// DELETE — delete a credential and its associated endpoint
+// DELETE — delete a credential and all of its endpoints
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createServerClient()
@@ -0,0 +1,118 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { parsePromptInput } from '@/lib/mcp-prompts'
+import { NextRequest, NextResponse } from 'next/server'
+
+// PATCH — replace a prompt template's definition (owners and admins)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; promptId: string }> }
+) {
+  try {
+    const { id, promptId } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = parsePromptInput(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: prompt, error } = await admin
+      .from('mcp_prompts')
+      .update({ ...parsed.prompt, updated_at: new Date().toISOString() })
+      .eq('id', promptId)
+      .eq('endpoint_id', id)
+      .eq('organization_id', membership.organization_id)
+      .select('id, endpoint_id, name, title, description, template, arguments, created_at, updated_at')
+      .maybeSingle()
+
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: `A prompt named '${parsed.prompt.name}' already exists on this endpoint` },
+        { status: 409 }
+      )
+    }
+    if (error) throw error
+
+    if (!prompt) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ prompt })
+  } catch (error: any) {
+    console.error('PATCH prompt error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// DELETE — remove a prompt template (owners and admins)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; promptId: string }> }
+) {
+  try {
+    const { id, promptId } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: deleted, error } = await admin
+      .from('mcp_prompts')
+      .delete()
+      .eq('id', promptId)
+      .eq('endpoint_id', id)
+      .eq('organization_id', membership.organization_id)
+      .select('id')
+
+    if (error) throw error
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('DELETE prompt error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
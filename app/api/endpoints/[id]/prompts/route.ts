@@ -0,0 +1,120 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { parsePromptInput } from '@/lib/mcp-prompts'
+import { NextRequest, NextResponse } from 'next/server'
+
+// GET — list an endpoint's MCP prompt templates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const { data: prompts, error } = await admin
+      .from('mcp_prompts')
+      .select('id, endpoint_id, name, title, description, template, arguments, created_at, updated_at')
+      .eq('endpoint_id', id)
+      .eq('organization_id', membership.organization_id)
+      .order('name', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ prompts: prompts || [] })
+  } catch (error: any) {
+    console.error('GET prompts error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// POST — add a prompt template to an endpoint (owners and admins)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = parsePromptInput(await request.json())
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // Only owners and admins author prompts for the team
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Scoped to the org so one org can't attach prompts to another's endpoint
+    const { data: endpoint } = await admin
+      .from('mcp_endpoints')
+      .select('id')
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .single()
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    const { data: prompt, error } = await admin
+      .from('mcp_prompts')
+      .insert({
+        ...parsed.prompt,
+        organization_id: membership.organization_id,
+        endpoint_id: endpoint.id,
+        created_by: authUser.id,
+      })
+      .select('id, endpoint_id, name, title, description, template, arguments, created_at, updated_at')
+      .single()
+
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { error: `A prompt named '${parsed.prompt.name}' already exists on this endpoint` },
+        { status: 409 }
+      )
+    }
+    if (error) throw error
+
+    return NextResponse.json({ prompt })
+  } catch (error: any) {
+    console.error('POST prompts error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
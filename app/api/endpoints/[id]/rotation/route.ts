@@ -0,0 +1,237 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  DEFAULT_ROTATION_GRACE_HOURS,
+  MAX_ROTATION_GRACE_HOURS,
+  newEndpointUrl,
+} from '@/lib/endpoint-urls'
+import { evictEndpointSessions } from '@/lib/mcp-sessions'
+import { NextRequest, NextResponse } from 'next/server'
+
+const ROTATION_COLUMNS = 'id, endpoint_url, previous_endpoint_url, previous_url_expires_at, url_rotated_at'
+
+// Old-URL tool calls read for the report; plenty to find every client
+const MAX_REPORTED_CALLS = 1000
+
+// GET — rotation status and the clients still calling the old URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    const { data: endpoint } = await admin
+      .from('mcp_endpoints')
+      .select(ROTATION_COLUMNS)
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .single()
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    if (!endpoint.url_rotated_at) {
+      return NextResponse.json({ rotation: endpoint, old_url_clients: [] })
+    }
+
+    const { data: calls, error } = await admin
+      .from('usage_logs')
+      .select('user_agent, created_at, mcp_sessions(client_name, client_version)')
+      .eq('endpoint_id', endpoint.id)
+      .eq('via_previous_url', true)
+      .gte('created_at', endpoint.url_rotated_at)
+      .order('created_at', { ascending: false })
+      .limit(MAX_REPORTED_CALLS)
+
+    if (error) throw error
+
+    // One row per client: user-agent plus the MCP clientInfo when the
+    // call was made in a session
+    const clients = new Map<string, {
+      user_agent: string | null
+      client_name: string | null
+      client_version: string | null
+      calls: number
+      last_seen_at: string
+    }>()
+    for (const call of (calls || []) as any[]) {
+      const session = call.mcp_sessions
+      const key = `${call.user_agent ?? ''}\n${session?.client_name ?? ''}\n${session?.client_version ?? ''}`
+      const client = clients.get(key)
+      if (client) {
+        client.calls++
+      } else {
+        clients.set(key, {
+          user_agent: call.user_agent,
+          client_name: session?.client_name ?? null,
+          client_version: session?.client_version ?? null,
+          calls: 1,
+          last_seen_at: call.created_at,
+        })
+      }
+    }
+
+    return NextResponse.json({ rotation: endpoint, old_url_clients: [...clients.values()] })
+  } catch (error: any) {
+    console.error('GET endpoint rotation error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// POST — rotate the endpoint URL (owners and admins). The old URL keeps
+// working for grace_hours; an older URL still in its grace period is
+// revoked at once.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const graceHours = body?.grace_hours ?? DEFAULT_ROTATION_GRACE_HOURS
+    if (!Number.isInteger(graceHours) || graceHours < 0 || graceHours > MAX_ROTATION_GRACE_HOURS) {
+      return NextResponse.json(
+        { error: `grace_hours must be a whole number between 0 and ${MAX_ROTATION_GRACE_HOURS}` },
+        { status: 400 }
+      )
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: current } = await admin
+      .from('mcp_endpoints')
+      .select('id, endpoint_url')
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .single()
+
+    if (!current) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    const now = new Date()
+    // Conditional on the URL we read, so two concurrent rotations can't
+    // both succeed and strand a URL
+    const { data: endpoint, error } = await admin
+      .from('mcp_endpoints')
+      .update({
+        endpoint_url: newEndpointUrl(),
+        previous_endpoint_url: graceHours > 0 ? current.endpoint_url : null,
+        previous_url_expires_at:
+          graceHours > 0 ? new Date(now.getTime() + graceHours * 60 * 60 * 1000).toISOString() : null,
+        url_rotated_at: now.toISOString(),
+      })
+      .eq('id', current.id)
+      .eq('endpoint_url', current.endpoint_url)
+      .select(ROTATION_COLUMNS)
+      .single()
+
+    if (error || !endpoint) {
+      return NextResponse.json(
+        { error: 'The endpoint URL changed while rotating. Reload and try again.' },
+        { status: 409 }
+      )
+    }
+
+    // Cached sessions hold the old row, which still matches the old URL
+    evictEndpointSessions(endpoint.id)
+
+    return NextResponse.json({ rotation: endpoint })
+  } catch (error: any) {
+    console.error('POST endpoint rotation error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// DELETE — revoke the old URL now instead of at the end of the grace
+// period (owners and admins)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { data: endpoint, error } = await admin
+      .from('mcp_endpoints')
+      .update({ previous_endpoint_url: null, previous_url_expires_at: null })
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .select(ROTATION_COLUMNS)
+      .single()
+
+    if (error || !endpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    evictEndpointSessions(endpoint.id)
+
+    return NextResponse.json({ rotation: endpoint })
+  } catch (error: any) {
+    console.error('DELETE endpoint rotation error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
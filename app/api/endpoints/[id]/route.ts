@@ -0,0 +1,60 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { evictEndpointSessions } from '@/lib/mcp-sessions'
+import { NextRequest, NextResponse } from 'next/server'
+
+// DELETE — delete an endpoint. Its URL stops working at once; the
+// credential and its other endpoints are untouched.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Get user's organization and role
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Sessions, prompts and OAuth tokens go with it (ON DELETE CASCADE);
+    // usage_logs and usage_counters keep their rows with endpoint_id set
+    // to NULL, so the day's quota isn't handed back
+    const { data: deleted, error } = await admin
+      .from('mcp_endpoints')
+      .delete()
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .select('id')
+
+    if (error) throw new Error(`Failed to delete endpoint: ${error.message}`)
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    evictEndpointSessions(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('DELETE endpoint error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
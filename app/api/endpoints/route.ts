@@ -1,6 +1,29 @@
 import { createServerClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
-import { NextResponse } from 'next/server'
+import { parseNetworkPolicy } from '@/lib/network-policy'
+import type { NetworkPolicy } from '@/lib/network-policy'
+import { getMcpService } from '@/lib/mcp-handlers/registry'
+import { parseSqlDenylist } from '@/lib/sql-denylist'
+import { COST_GUARD_MODES, isCostGuardMode } from '@/lib/sql-cost-guard'
+import { RESULT_FORMATS, isResultFormat } from '@/lib/result-format'
+import type { SqlDenylistOverrides } from '@/lib/sql-denylist'
+import { configurableTools, parseAllowedTools, parseEndpointLabel, parseTableScope } from '@/lib/endpoint-scopes'
+import { newEndpointUrl } from '@/lib/endpoint-urls'
+import { evictEndpointSessions } from '@/lib/mcp-sessions'
+import { NextRequest, NextResponse } from 'next/server'
+
+// Bounds for the per-endpoint limits editable from the dashboard
+const MAX_RATE_LIMIT = 1000
+const MAX_CONCURRENT_CALLS = 50
+
+// Columns returned by POST and PATCH
+const ENDPOINT_COLUMNS =
+  'id, credential_id, label, endpoint_url, service_slug, is_active, rate_limit, max_concurrent_calls, allowed_tools, allowed_tables, sql_denylist, cost_guard_mode, cost_guard_max_rows, cost_guard_max_cost, result_format, oauth_required, api_key_required, network_policy, created_at, last_accessed_at'
+
+function availableTools(serviceSlug: string): string[] {
+  const service = getMcpService(serviceSlug)
+  return service ? configurableTools(service) : []
+}
 
 // GET — list MCP endpoints for the current user's organization
 export async function GET() {
@@ -29,11 +52,25 @@ export async function GET() {
       .from('mcp_endpoints')
       .select(`
         id,
+        credential_id,
+        label,
         endpoint_url,
+        previous_endpoint_url,
+        previous_url_expires_at,
         service_slug,
         is_active,
         rate_limit,
+        max_concurrent_calls,
         allowed_tools,
+        allowed_tables,
+        sql_denylist,
+        cost_guard_mode,
+        cost_guard_max_rows,
+        cost_guard_max_cost,
+        result_format,
+        oauth_required,
+        api_key_required,
+        network_policy,
         created_at,
         last_accessed_at,
         credentials!inner(id, name)
@@ -46,11 +83,28 @@ export async function GET() {
     // Flatten credentials object
     const formattedEndpoints = (endpoints || []).map((ep: any) => ({
       id: ep.id,
+      credential_id: ep.credential_id,
+      label: ep.label,
       endpoint_url: ep.endpoint_url,
+      previous_endpoint_url: ep.previous_endpoint_url,
+      previous_url_expires_at: ep.previous_url_expires_at,
       service_slug: ep.service_slug,
       is_active: ep.is_active,
       rate_limit: ep.rate_limit,
+      max_concurrent_calls: ep.max_concurrent_calls,
       allowed_tools: ep.allowed_tools,
+      allowed_tables: ep.allowed_tables,
+      available_tools: availableTools(ep.service_slug),
+      sql_denylist: ep.sql_denylist,
+      sql_dialect: getMcpService(ep.service_slug)?.sqlDialect ?? null,
+      cost_guard_mode: ep.cost_guard_mode,
+      cost_guard_max_rows: ep.cost_guard_max_rows,
+      cost_guard_max_cost: ep.cost_guard_max_cost,
+      cost_guard_supported: !!getMcpService(ep.service_slug)?.costGuard,
+      result_format: ep.result_format,
+      oauth_required: ep.oauth_required,
+      api_key_required: ep.api_key_required,
+      network_policy: ep.network_policy,
       created_at: ep.created_at,
       last_accessed_at: ep.last_accessed_at,
       credential_name: ep.credentials?.name || 'Unknown',
@@ -62,3 +116,340 @@ export async function GET() {
     return NextResponse.json({ error: error.message }, { status: 500 })
   }
 }
+
+// POST — create another endpoint for a credential, with its own tool and table scope
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { credential_id, label, allowed_tools, allowed_tables } = await request.json()
+
+    if (!credential_id) {
+      return NextResponse.json({ error: 'Missing credential_id' }, { status: 400 })
+    }
+
+    // Get user's organization and role
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // A new endpoint is a new way into the credential's data
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Verify the credential belongs to this organization
+    const { data: credential } = await admin
+      .from('credentials')
+      .select('id, service_slug')
+      .eq('id', credential_id)
+      .eq('organization_id', membership.organization_id)
+      .single()
+
+    if (!credential) {
+      return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
+    }
+
+    const service = getMcpService(credential.service_slug)
+    if (!service) {
+      return NextResponse.json({ error: `Unsupported service: ${credential.service_slug}` }, { status: 400 })
+    }
+
+    const parsedLabel = parseEndpointLabel(label ?? null)
+    if (!parsedLabel.ok) {
+      return NextResponse.json({ error: parsedLabel.error }, { status: 400 })
+    }
+    const parsedTools = parseAllowedTools(allowed_tools ?? null, service)
+    if (!parsedTools.ok) {
+      return NextResponse.json({ error: parsedTools.error }, { status: 400 })
+    }
+    const parsedTables = parseTableScope(allowed_tables ?? null)
+    if (!parsedTables.ok) {
+      return NextResponse.json({ error: parsedTables.error }, { status: 400 })
+    }
+
+    const { data: endpoint, error } = await admin
+      .from('mcp_endpoints')
+      .insert({
+        organization_id: membership.organization_id,
+        credential_id: credential.id,
+        service_slug: credential.service_slug,
+        endpoint_url: newEndpointUrl(),
+        label: parsedLabel.label,
+        allowed_tools: parsedTools.tools,
+        allowed_tables: parsedTables.tables,
+        is_active: true,
+      })
+      .select(ENDPOINT_COLUMNS)
+      .single()
+
+    if (error) throw new Error(`Failed to create endpoint: ${error.message}`)
+
+    return NextResponse.json({
+      endpoint: {
+        ...endpoint,
+        available_tools: configurableTools(service),
+        sql_dialect: service.sqlDialect ?? null,
+        cost_guard_supported: !!service.costGuard,
+      },
+    })
+  } catch (error: any) {
+    console.error('POST endpoints error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// PATCH — update an endpoint's label, pause state, tool and table scope,
+// SQL denylist, cost guard, result format, rate limits, auth requirements and network policy
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerClient()
+    const admin = createAdminClient()
+
+    const { data: { user: authUser } } = await supabase.auth.getUser()
+    if (!authUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const {
+      id,
+      label,
+      is_active,
+      allowed_tools,
+      allowed_tables,
+      sql_denylist,
+      cost_guard_mode,
+      cost_guard_max_rows,
+      cost_guard_max_cost,
+      result_format,
+      rate_limit,
+      max_concurrent_calls,
+      oauth_required,
+      api_key_required,
+      network_policy,
+    } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing endpoint id' }, { status: 400 })
+    }
+
+    const updates: Record<
+      string,
+      string | number | boolean | string[] | NetworkPolicy | SqlDenylistOverrides | null
+    > = {}
+
+    if (label !== undefined) {
+      const parsed = parseEndpointLabel(label)
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      updates.label = parsed.label
+    }
+
+    if (is_active !== undefined) {
+      if (typeof is_active !== 'boolean') {
+        return NextResponse.json({ error: 'is_active must be true or false' }, { status: 400 })
+      }
+      updates.is_active = is_active
+    }
+
+    if (allowed_tables !== undefined) {
+      const parsed = parseTableScope(allowed_tables)
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      updates.allowed_tables = parsed.tables
+    }
+
+    if (cost_guard_mode !== undefined) {
+      if (!isCostGuardMode(cost_guard_mode)) {
+        return NextResponse.json(
+          { error: `cost_guard_mode must be one of ${COST_GUARD_MODES.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.cost_guard_mode = cost_guard_mode
+    }
+
+    // Null = no limit of that kind
+    if (cost_guard_max_rows !== undefined) {
+      if (
+        cost_guard_max_rows !== null &&
+        (!Number.isSafeInteger(cost_guard_max_rows) || cost_guard_max_rows < 1)
+      ) {
+        return NextResponse.json(
+          { error: 'cost_guard_max_rows must be a positive whole number or null' },
+          { status: 400 }
+        )
+      }
+      updates.cost_guard_max_rows = cost_guard_max_rows
+    }
+
+    if (cost_guard_max_cost !== undefined) {
+      if (
+        cost_guard_max_cost !== null &&
+        (typeof cost_guard_max_cost !== 'number' || !Number.isFinite(cost_guard_max_cost) || cost_guard_max_cost <= 0)
+      ) {
+        return NextResponse.json(
+          { error: 'cost_guard_max_cost must be a positive number or null' },
+          { status: 400 }
+        )
+      }
+      updates.cost_guard_max_cost = cost_guard_max_cost
+    }
+
+    if (result_format !== undefined) {
+      if (!isResultFormat(result_format)) {
+        return NextResponse.json(
+          { error: `result_format must be one of ${RESULT_FORMATS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.result_format = result_format
+    }
+
+    if (rate_limit !== undefined) {
+      if (!Number.isInteger(rate_limit) || rate_limit < 1 || rate_limit > MAX_RATE_LIMIT) {
+        return NextResponse.json(
+          { error: `rate_limit must be a whole number between 1 and ${MAX_RATE_LIMIT}` },
+          { status: 400 }
+        )
+      }
+      updates.rate_limit = rate_limit
+    }
+
+    if (max_concurrent_calls !== undefined) {
+      if (
+        !Number.isInteger(max_concurrent_calls) ||
+        max_concurrent_calls < 1 ||
+        max_concurrent_calls > MAX_CONCURRENT_CALLS
+      ) {
+        return NextResponse.json(
+          { error: `max_concurrent_calls must be a whole number between 1 and ${MAX_CONCURRENT_CALLS}` },
+          { status: 400 }
+        )
+      }
+      updates.max_concurrent_calls = max_concurrent_calls
+    }
+
+    if (oauth_required !== undefined) {
+      if (typeof oauth_required !== 'boolean') {
+        return NextResponse.json({ error: 'oauth_required must be true or false' }, { status: 400 })
+      }
+      updates.oauth_required = oauth_required
+    }
+
+    if (api_key_required !== undefined) {
+      if (typeof api_key_required !== 'boolean') {
+        return NextResponse.json({ error: 'api_key_required must be true or false' }, { status: 400 })
+      }
+      updates.api_key_required = api_key_required
+    }
+
+    if (network_policy !== undefined) {
+      const parsed = parseNetworkPolicy(network_policy)
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      updates.network_policy = parsed.policy
+    }
+
+    const setsCostGuard =
+      cost_guard_mode !== undefined || cost_guard_max_rows !== undefined || cost_guard_max_cost !== undefined
+
+    if (Object.keys(updates).length === 0 && allowed_tools === undefined && sql_denylist === undefined) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    }
+
+    // Get user's organization and role
+    const { data: membership } = await admin
+      .from('organization_members')
+      .select('organization_id, role')
+      .eq('user_id', authUser.id)
+      .single()
+
+    if (!membership) {
+      return NextResponse.json({ error: 'No organization found' }, { status: 404 })
+    }
+
+    // These settings decide who can reach the credential's data and how much of it
+    if (!['owner', 'admin'].includes(membership.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    // Tool names, denylist entries and the cost guard depend on the endpoint's service
+    if (allowed_tools !== undefined || sql_denylist !== undefined || setsCostGuard) {
+      const { data: existing } = await admin
+        .from('mcp_endpoints')
+        .select('service_slug')
+        .eq('id', id)
+        .eq('organization_id', membership.organization_id)
+        .single()
+
+      if (!existing) {
+        return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+      }
+
+      const service = getMcpService(existing.service_slug)
+      if (!service) {
+        return NextResponse.json({ error: `Unsupported service: ${existing.service_slug}` }, { status: 400 })
+      }
+
+      if (allowed_tools !== undefined) {
+        const parsed = parseAllowedTools(allowed_tools, service)
+        if (!parsed.ok) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 })
+        }
+        updates.allowed_tools = parsed.tools
+      }
+
+      if (sql_denylist !== undefined) {
+        if (!service.sqlDialect) {
+          return NextResponse.json({ error: `${service.label} has no SQL to restrict` }, { status: 400 })
+        }
+        const parsed = parseSqlDenylist(sql_denylist, service.sqlDialect)
+        if (!parsed.ok) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 })
+        }
+        updates.sql_denylist = parsed.overrides
+      }
+
+      if (setsCostGuard && !service.costGuard) {
+        return NextResponse.json({ error: `${service.label} doesn't support the cost guard` }, { status: 400 })
+      }
+    }
+
+    // Scoped to the org so one org can't edit another's endpoint
+    const { data: endpoint, error } = await admin
+      .from('mcp_endpoints')
+      .update(updates)
+      .eq('id', id)
+      .eq('organization_id', membership.organization_id)
+      .select(ENDPOINT_COLUMNS)
+      .single()
+
+    if (error || !endpoint) {
+      return NextResponse.json({ error: 'Endpoint not found' }, { status: 404 })
+    }
+
+    // Sessions cache their endpoint row; make the change apply now
+    evictEndpointSessions(endpoint.id)
+
+    return NextResponse.json({ endpoint })
+  } catch (error: any) {
+    console.error('PATCH endpoints error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
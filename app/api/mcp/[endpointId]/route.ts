@@ -11,25 +11,74 @@
  *     clients like Zapier MCP v4.0.1 and Bedrock AgentCore).
  *   - Otherwise, responses are emitted as plain `application/json` (the
  *     historic default; Claude Desktop is happy with either).
+ *   - An SSE tools/call carrying `_meta.progressToken` keeps the stream
+ *     open and gets notifications/progress events before its result
+ *     (see lib/mcp-progress.ts).
+ *
+ * A POST body may be a single message or a JSON-RPC batch array; a batch
+ * gets one array response (or 202 if it held only notifications).
  *
  * GET on this endpoint opens a server-initiated SSE channel (older spec
  * versions used this for server-pushed messages). Synra is purely
  * request-response, so the stream is kept alive with periodic comments
  * and closed by Vercel's function timeout — clients are unaffected.
  *
- * PUBLIC — no auth required. Authorization is via the unguessable
- * endpointId in the URL.
+ * Sessions: `initialize` returns an `Mcp-Session-Id` header (see
+ * lib/mcp-sessions.ts). Requests that echo it are validated against the
+ * session and reuse its cached endpoint and credentials; an unknown or
+ * terminated ID gets HTTP 404 so the client re-initializes. Requests
+ * without the header are still served session-less, as before, for
+ * clients that ignore it. DELETE with the header ends the session.
+ *
+ * Protocol versions: tools/list includes tool annotations from 2025-03-26
+ * and outputSchemas from 2025-06-18, and 2025-06-18 clients get tool
+ * results as structuredContent as well as text. The version is the
+ * session's, else the Mcp-Protocol-Version header.
+ *
+ * Authorization: by default the unguessable endpointId in the URL is
+ * the credential. Endpoints with oauth_required also need an OAuth 2.1
+ * bearer token (see lib/oauth.ts), and endpoints with api_key_required
+ * an `Authorization: Bearer syn_...` API key (see lib/api-keys.ts).
+ * Requests without a valid one get HTTP 401; for OAuth endpoints the
+ * WWW-Authenticate challenge points the client at the endpoint's
+ * protected-resource metadata. Before any of that, an endpoint's
+ * network_policy can restrict client IPs, browser origins and
+ * user-agents (see lib/network-policy.ts); violations get HTTP 403.
  */
 
 import { createAdminClient } from '@/lib/supabase/admin'
-import { decrypt } from '@/lib/encryption'
-import { SUPABASE_TOOLS, handleSupabaseTool } from '@/lib/mcp-handlers/supabase'
-import { POSTGRESQL_TOOLS, handlePostgresqlTool } from '@/lib/mcp-handlers/postgresql'
-import { MYSQL_TOOLS, handleMysqlTool } from '@/lib/mcp-handlers/mysql'
-import { MSSQL_TOOLS, handleMssqlTool } from '@/lib/mcp-handlers/mssql'
-import type { PostgresqlConfig } from '@/lib/mcp-handlers/postgresql'
-import type { MysqlConfig } from '@/lib/mcp-handlers/mysql'
-import type { MssqlConfig } from '@/lib/mcp-handlers/mssql'
+import { getMcpService, resolveCredentialConfig, scopeAllowedTables } from '@/lib/mcp-handlers/registry'
+import type { ResolvedCredential } from '@/lib/mcp-handlers/registry'
+import { FETCH_MORE_TOOL, TABLE_RESOURCE_OP, toStructuredContent } from '@/lib/mcp-handlers/service'
+import type { McpService, McpTool } from '@/lib/mcp-handlers/service'
+import { costGuardFromEndpoint } from '@/lib/sql-cost-guard'
+import { acquireEndpointSlot, DEFAULT_MAX_CONCURRENT_CALLS } from '@/lib/endpoint-rate-limit'
+import type { RateLimitCheck } from '@/lib/endpoint-rate-limit'
+import { canMakeRequest } from '@/lib/usage-limits'
+import { cancelToolCall, trackToolCall } from '@/lib/inflight-calls'
+import { progressTokenOf, startProgress } from '@/lib/mcp-progress'
+import { attachCursor, resolveCursor } from '@/lib/result-cursors'
+import {
+  DEFAULT_RESULT_FORMAT,
+  RESULT_FORMATS,
+  formatToolResult,
+  isResultFormat,
+  renderResultRows,
+} from '@/lib/result-format'
+import {
+  RESOURCE_TEMPLATES,
+  listResourceEntries,
+  resourceContents,
+  resourceOperation,
+} from '@/lib/mcp-resources'
+import { getEndpointPrompt, listEndpointPrompts, renderPrompt, toMcpPrompt } from '@/lib/mcp-prompts'
+import { bearerChallenge, bearerToken, verifyAccessToken } from '@/lib/oauth'
+import { isApiKey, verifyApiKey } from '@/lib/api-keys'
+import { getPublicOrigin } from '@/lib/public-origin'
+import { endpointUrlFilter, matchEndpointUrl } from '@/lib/endpoint-urls'
+import { checkNetworkPolicy, clientIp, isOriginAllowed } from '@/lib/network-policy'
+import { createSession, resolveSession, sessionCredential, terminateSession } from '@/lib/mcp-sessions'
+import type { McpSession } from '@/types'
 import { NextRequest, NextResponse } from 'next/server'
 
 // The app runs on Railway (long-lived server, no per-request duration
@@ -45,6 +94,41 @@ function clientAcceptsSSE(request: NextRequest): boolean {
   return accept.includes('text/event-stream')
 }
 
+// ─── Protocol versions ──────────────────────────────────────────────
+
+const SUPPORTED_PROTOCOL_VERSIONS = new Set([
+  '2024-11-05',
+  '2025-03-26',
+  '2025-06-18',
+])
+
+const DEFAULT_PROTOCOL_VERSION = '2025-03-26'
+
+// Versions are dates, so they compare as strings.
+const TOOL_ANNOTATIONS_SINCE = '2025-03-26'
+const STRUCTURED_OUTPUT_SINCE = '2025-06-18'
+
+/**
+ * The protocol version a request speaks: the one negotiated for its
+ * session, else the client's Mcp-Protocol-Version header, else the
+ * default the spec assumes when a client sends neither.
+ */
+function requestProtocolVersion(request: NextRequest, session: McpSession | null): string {
+  if (session?.protocol_version) return session.protocol_version
+  const header = request.headers.get('mcp-protocol-version')
+  return header && SUPPORTED_PROTOCOL_VERSIONS.has(header) ? header : DEFAULT_PROTOCOL_VERSION
+}
+
+/** A tools/list entry without the fields the client's version predates. */
+function toolForProtocol(tool: McpTool, protocolVersion: string): McpTool {
+  const { outputSchema, annotations, ...base } = tool
+  return {
+    ...base,
+    ...(annotations && protocolVersion >= TOOL_ANNOTATIONS_SINCE ? { annotations } : {}),
+    ...(outputSchema && protocolVersion >= STRUCTURED_OUTPUT_SINCE ? { outputSchema } : {}),
+  }
+}
+
 // ─── CORS / shared headers ──────────────────────────────────────────
 
 const CORS_HEADERS: Record<string, string> = {
@@ -52,7 +136,7 @@ const CORS_HEADERS: Record<string, string> = {
   'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
   'Access-Control-Allow-Headers':
     'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID',
-  'Access-Control-Expose-Headers': 'Mcp-Session-Id, Mcp-Protocol-Version',
+  'Access-Control-Expose-Headers': 'Mcp-Session-Id, Mcp-Protocol-Version, WWW-Authenticate',
   'Access-Control-Max-Age': '86400',
 }
 
@@ -60,6 +144,9 @@ const CORS_HEADERS: Record<string, string> = {
 
 type LogMeta = Record<string, unknown>
 
+/** usage_logs.user_agent is for recognising clients, not forensics. */
+const MAX_USER_AGENT_LENGTH = 300
+
 function logMcp(stage: string, meta: LogMeta) {
   // Single-line JSON for easy grep / log-aggregator parsing.
   // Vercel captures stdout, so console.log is the right choice here.
@@ -127,71 +214,173 @@ function rpcResponse(
   })
 }
 
-function jsonRpcSuccess(
-  request: NextRequest,
-  id: number | string | null,
-  result: unknown,
-  extraHeaders: Record<string, string> = {}
-): NextResponse {
-  return rpcResponse(request, { jsonrpc: '2.0', id, result }, extraHeaders)
-}
-
 function jsonRpcError(
   request: NextRequest,
   id: number | string | null,
   code: number,
   message: string,
-  extraHeaders: Record<string, string> = {}
+  extraHeaders: Record<string, string> = {},
+  data?: unknown
 ): NextResponse {
   return rpcResponse(
     request,
-    { jsonrpc: '2.0', id, error: { code, message } },
+    {
+      jsonrpc: '2.0',
+      id,
+      error: data === undefined ? { code, message } : { code, message, data },
+    },
     extraHeaders
   )
 }
 
+// Per the transport spec, a request carrying an unknown or terminated
+// Mcp-Session-Id gets HTTP 404, which tells the client to start a new
+// session with `initialize`.
+function sessionNotFound(id: number | string | null): NextResponse {
+  return NextResponse.json(
+    {
+      jsonrpc: '2.0',
+      id,
+      error: { code: -32001, message: 'Session not found or expired. Re-initialize to start a new session.' },
+    },
+    { status: 404, headers: CORS_HEADERS }
+  )
+}
+
 // ─── Endpoint Lookup ────────────────────────────────────────────────
 
+/**
+ * The endpoint a request path names: by its current URL, or by its
+ * previous one while a rotation's grace period lasts.
+ */
 async function lookupEndpoint(endpointPath: string) {
+  const filter = endpointUrlFilter(endpointPath)
+  if (!filter) return null
+
   const admin = createAdminClient()
 
   // Find endpoint by URL path
   const { data: endpoint, error } = await admin
     .from('mcp_endpoints')
     .select('*, credentials(*)')
-    .eq('endpoint_url', `/api/mcp/${endpointPath}`)
-    .single()
+    .or(filter)
+    .maybeSingle()
 
-  if (error || !endpoint) {
+  if (error || !endpoint || !matchEndpointUrl(endpoint, endpointPath)) {
     return null
   }
 
   return endpoint
 }
 
-// ─── Decrypt Credentials ────────────────────────────────────────────
+/**
+ * Whether the endpoint's allowed_tools (empty = every tool) enables a
+ * tool. fetch_more only pages execute_sql results, so it follows
+ * execute_sql.
+ */
+function isToolEnabled(endpoint: any, toolName: string): boolean {
+  const allowed = endpoint.allowed_tools
+  if (!Array.isArray(allowed) || allowed.length === 0) return true
+  if (toolName === FETCH_MORE_TOOL.name) return allowed.includes('execute_sql')
+  return allowed.includes(toolName)
+}
+
+/**
+ * Which schema resources the endpoint exposes. They carry the same data
+ * as tools, so they follow allowed_tools: synra://schema is
+ * describe_table's column metadata, and a synra://table/* resource adds
+ * query_table's sample rows.
+ */
+function enabledResources(service: McpService, endpoint: any): { schema: boolean; tables: boolean } {
+  const schema = !!service.resources && isToolEnabled(endpoint, 'describe_table')
+  return { schema, tables: schema && isToolEnabled(endpoint, 'query_table') }
+}
+
+// ─── Network policy ─────────────────────────────────────────────────
 
-function decryptCredentialConfig(
-  config: Record<string, string>
-): Record<string, string> {
-  const decrypted: Record<string, string> = {}
+/**
+ * The 403 to send when the request breaks the endpoint's IP, origin or
+ * user-agent allowlist (lib/network-policy.ts). Null when it may proceed.
+ */
+function enforceNetworkPolicy(
+  request: NextRequest,
+  endpoint: any,
+  endpointPath: string
+): NextResponse | null {
+  const ip = clientIp(request.headers)
+  const check = checkNetworkPolicy(endpoint.network_policy, {
+    ip,
+    origin: request.headers.get('origin'),
+    userAgent: request.headers.get('user-agent'),
+  })
+  if (check.allowed) return null
 
-  for (const [key, value] of Object.entries(config)) {
-    try {
-      // Try to decrypt — if it fails, value might not be encrypted
-      decrypted[key] = decrypt(value)
-    } catch {
-      // Not encrypted, use as-is
-      decrypted[key] = value
-    }
-  }
+  logMcp('network.denied', {
+    endpointId: endpointPath,
+    reason: check.reason,
+    ip,
+    headers: sanitizeHeaders(request),
+  })
+  return NextResponse.json({ error: check.reason }, { status: 403, headers: CORS_HEADERS })
+}
 
-  return decrypted
+// ─── Bearer auth ────────────────────────────────────────────────────
+
+/**
+ * For endpoints with oauth_required or api_key_required, the 401 to send
+ * when the request has no valid bearer credential for this endpoint.
+ * Null when it may proceed. With both enabled either credential is
+ * accepted: `syn_` keys are API keys, anything else is an OAuth token.
+ */
+async function requireBearer(
+  request: NextRequest,
+  endpoint: any,
+  endpointPath: string
+): Promise<NextResponse | null> {
+  if (!endpoint.oauth_required && !endpoint.api_key_required) return null
+
+  const token = bearerToken(request.headers.get('authorization'))
+  let check: { ok: boolean; error?: string }
+  if (token && isApiKey(token) && endpoint.api_key_required) {
+    check = await verifyApiKey(token, endpoint)
+  } else if (endpoint.oauth_required) {
+    check = await verifyAccessToken(token, endpoint)
+  } else {
+    check = { ok: false, error: token ? 'Invalid API key' : 'Missing API key' }
+  }
+  if (check.ok) return null
+
+  logMcp('auth.rejected', { endpointId: endpointPath, reason: check.error })
+  // The OAuth challenge tells clients where to start the flow; API-key
+  // endpoints have nothing to discover
+  const challenge = endpoint.oauth_required
+    ? bearerChallenge(getPublicOrigin(request), endpointPath, token ? 'invalid_token' : undefined)
+    : token
+      ? 'Bearer error="invalid_token"'
+      : 'Bearer'
+  return NextResponse.json(
+    { error: check.error },
+    { status: 401, headers: { ...CORS_HEADERS, 'WWW-Authenticate': challenge } }
+  )
 }
 
 // ─── OPTIONS (CORS preflight) ───────────────────────────────────────
 
-export async function OPTIONS() {
+// Browsers only: refuse the preflight for origins the endpoint's network
+// policy doesn't allow, so the browser never sends the request.
+export async function OPTIONS(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  const origin = request.headers.get('origin')
+  if (origin) {
+    const { endpointId } = await params
+    const endpoint = await lookupEndpoint(endpointId)
+    if (endpoint && !isOriginAllowed(endpoint.network_policy, origin)) {
+      logMcp('network.denied', { endpointId, reason: `Origin ${origin} is not allowed`, preflight: true })
+      return new NextResponse(null, { status: 403 })
+    }
+  }
   return new NextResponse(null, { status: 204, headers: CORS_HEADERS })
 }
 
@@ -233,6 +422,16 @@ export async function GET(
     )
   }
 
+  const denied = enforceNetworkPolicy(request, endpoint, endpointId)
+  if (denied) {
+    return denied
+  }
+
+  const unauthorized = await requireBearer(request, endpoint, endpointId)
+  if (unauthorized) {
+    return unauthorized
+  }
+
   if (wantsSSE) {
     const encoder = new TextEncoder()
     const stream = new ReadableStream({
@@ -288,6 +487,270 @@ export async function GET(
   )
 }
 
+// ─── JSON-RPC batches ───────────────────────────────────────────────
+//
+// The 2025-03-26 transport allows a POST body to be a JSON-RPC array.
+// A batch shares one endpoint lookup, usage check and credential
+// decryption; its messages run a few at a time, and each tool call in
+// it still goes through the endpoint's rate and concurrency limits.
+
+const MAX_BATCH_SIZE = 50
+const BATCH_CONCURRENCY = 4
+
+type RpcId = number | string | null
+
+interface RpcReply {
+  payload: unknown
+  headers?: Record<string, string>
+}
+
+function rpcResult(id: RpcId, result: unknown, headers?: Record<string, string>): RpcReply {
+  return { payload: { jsonrpc: '2.0', id, result }, headers }
+}
+
+function rpcError(
+  id: RpcId,
+  code: number,
+  message: string,
+  headers?: Record<string, string>,
+  data?: unknown
+): RpcReply {
+  return {
+    payload: {
+      jsonrpc: '2.0',
+      id,
+      error: data === undefined ? { code, message } : { code, message, data },
+    },
+    headers,
+  }
+}
+
+/**
+ * Send the replies for one POST: a single response, a batch array, or
+ * 202 Accepted when every message was a notification. Headers from all
+ * replies are merged (Mcp-Session-Id, Retry-After).
+ */
+function sendReplies(
+  request: NextRequest,
+  isBatch: boolean,
+  replies: (RpcReply | null)[]
+): NextResponse {
+  const sent = replies.filter((r): r is RpcReply => r !== null)
+
+  if (sent.length === 0) {
+    // Per MCP Streamable HTTP spec: input that is solely
+    // notifications/responses MUST receive HTTP 202 Accepted, no body.
+    return new NextResponse(null, { status: 202, headers: CORS_HEADERS })
+  }
+
+  const headers = Object.assign({}, ...sent.map((r) => r.headers || {}))
+  return rpcResponse(request, isBatch ? sent.map((r) => r.payload) : sent[0].payload, headers)
+}
+
+/**
+ * Stream the replies as SSE: `run` may send notifications (progress)
+ * while it works, then the response is sent as the final event.
+ * Headers can't change once the stream starts, so replies' extra
+ * headers are dropped (Retry-After is also in the error data).
+ */
+function streamReplies(
+  isBatch: boolean,
+  run: (notify: (message: unknown) => void) => Promise<(RpcReply | null)[]>
+): NextResponse {
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (message: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(formatSSE(message)))
+        } catch {
+          // Client disconnected — the call is cancelled via request.signal
+        }
+      }
+      try {
+        const sent = (await run(send)).filter((r): r is RpcReply => r !== null)
+        if (sent.length > 0) {
+          send(isBatch ? sent.map((r) => r.payload) : sent[0].payload)
+        }
+      } catch (err: any) {
+        send(rpcError(null, -32603, err.message || 'Internal error').payload)
+      } finally {
+        try {
+          controller.close()
+        } catch {}
+      }
+    },
+  })
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+function isNotification(message: any): boolean {
+  return typeof message?.method === 'string' && message.method.startsWith('notifications/')
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index])
+    }
+  })
+  await Promise.all(workers)
+  return results
+}
+
+// ─── Gateway context ────────────────────────────────────────────────
+
+interface GatewayContext {
+  endpointId: string
+  endpoint: any
+  credential: any
+  service: McpService
+  session: McpSession | null
+  /** Negotiated protocol version; gates tool annotations and structured output. */
+  protocolVersion: string
+  wantsSSE: boolean
+  isBatch: boolean
+  /** Aborts when the client disconnects. */
+  clientSignal: AbortSignal
+  /** Scope of fetch_more cursors: the session, else the endpoint. */
+  callScope: string
+  /** The request came in on the endpoint's pre-rotation URL (logged with each tool call). */
+  viaPreviousUrl: boolean
+  userAgent: string | null
+  /** Decrypted service config — resolved on first use, once per POST. */
+  credentialConfig: () => ResolvedCredential
+}
+
+/**
+ * Everything a POST's messages share: session or endpoint lookup,
+ * credential and service checks, and the read-only usage check.
+ * Returns the response to send instead when the request can't proceed.
+ */
+async function resolveGatewayContext(
+  request: NextRequest,
+  endpointId: string,
+  messages: any[],
+  isBatch: boolean
+): Promise<GatewayContext | { failure: NextResponse }> {
+  const failAll = (code: number, message: string) => ({
+    failure: sendReplies(
+      request,
+      isBatch,
+      messages.map((m) => (isNotification(m) ? null : rpcError(m?.id ?? null, code, message)))
+    ),
+  })
+
+  // ── Look up session / endpoint ────────────────────────────────────
+
+  const sessionId = request.headers.get('mcp-session-id')
+  const isInitialize = !isBatch && messages[0]?.method === 'initialize'
+  let session: McpSession | null = null
+  let endpoint
+
+  if (sessionId && !isInitialize) {
+    const resolved = await resolveSession(sessionId, endpointId)
+    if (!resolved) {
+      logMcp('POST.session_not_found', { endpointId, sessionId })
+      return { failure: sessionNotFound(isBatch ? null : messages[0]?.id ?? null) }
+    }
+    session = resolved.session
+    endpoint = resolved.endpoint
+  } else {
+    endpoint = await lookupEndpoint(endpointId)
+  }
+
+  if (!endpoint) {
+    return failAll(-32001, 'Endpoint not found')
+  }
+
+  // Before anything else touches the endpoint's credentials
+  const denied = enforceNetworkPolicy(request, endpoint, endpointId)
+  if (denied) {
+    return { failure: denied }
+  }
+
+  // Checked on every request, sessions included: the session ID alone
+  // must not outlive the token that opened it
+  const unauthorized = await requireBearer(request, endpoint, endpointId)
+  if (unauthorized) {
+    return { failure: unauthorized }
+  }
+
+  if (!endpoint.is_active) {
+    return failAll(-32002, 'Endpoint is inactive')
+  }
+
+  const credential = endpoint.credentials
+
+  if (!credential || !credential.is_active) {
+    return failAll(-32001, 'Credential not found or inactive')
+  }
+
+  const service = getMcpService(endpoint.service_slug)
+
+  if (!service) {
+    return failAll(-32001, `Unsupported service: ${endpoint.service_slug}`)
+  }
+
+  // ── Check usage limits ────────────────────────────────────────────
+
+  // Read-only here; tools/call admits (and counts) each call.
+  // Skipped within a session — it was checked when the session began.
+  if (!session) {
+    const usageCheck = await canMakeRequest(endpoint.organization_id)
+
+    if (!usageCheck.allowed) {
+      return failAll(-32003, usageCheck.reason || 'Rate limit exceeded. Please upgrade your plan.')
+    }
+  }
+
+  // ── Update last_accessed_at ───────────────────────────────────────
+
+  const admin = createAdminClient()
+  admin
+    .from('mcp_endpoints')
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq('id', endpoint.id)
+    .then(() => {}) // fire and forget
+
+  let resolvedCredential: ResolvedCredential | undefined
+  return {
+    endpointId,
+    endpoint,
+    credential,
+    service,
+    session,
+    protocolVersion: requestProtocolVersion(request, session),
+    wantsSSE: clientAcceptsSSE(request),
+    isBatch,
+    clientSignal: request.signal,
+    callScope: session?.id ?? endpoint.id,
+    viaPreviousUrl: matchEndpointUrl(endpoint, endpointId) === 'previous',
+    userAgent: request.headers.get('user-agent'),
+    credentialConfig: () =>
+      (resolvedCredential ??= sessionCredential(session?.id ?? null, () =>
+        resolveCredentialConfig(service, credential.config)
+      )),
+  }
+}
+
 // ─── POST handler (MCP JSON-RPC) ───────────────────────────────────
 
 export async function POST(
@@ -295,7 +758,6 @@ export async function POST(
   { params }: { params: Promise<{ endpointId: string }> }
 ) {
   const { endpointId } = await params
-  const startTime = Date.now()
   const wantsSSE = clientAcceptsSSE(request)
 
   let body: any
@@ -309,148 +771,235 @@ export async function POST(
     return jsonRpcError(request, null, -32700, 'Parse error: invalid JSON')
   }
 
-  const { jsonrpc, id, method, params: rpcParams } = body
+  const isBatch = Array.isArray(body)
+  const messages: any[] = isBatch ? body : [body]
 
   // Log every incoming request — this is what lets us diagnose
   // client interop bugs (Zapier, Cursor, AgentCore, etc.).
   logMcp('POST', {
     endpointId,
-    method,
-    id,
+    ...(isBatch
+      ? { batchSize: messages.length, methods: messages.map((m) => m?.method) }
+      : {
+          method: body?.method,
+          id: body?.id,
+          paramsKeys:
+            body?.params && typeof body.params === 'object'
+              ? Object.keys(body.params)
+              : undefined,
+        }),
     wantsSSE,
     headers: sanitizeHeaders(request),
-    paramsKeys:
-      rpcParams && typeof rpcParams === 'object'
-        ? Object.keys(rpcParams)
-        : undefined,
   })
 
-  // Validate JSON-RPC format
-  if (jsonrpc !== '2.0') {
+  if (isBatch && messages.length === 0) {
+    return jsonRpcError(request, null, -32600, 'Invalid Request: empty batch')
+  }
+
+  if (messages.length > MAX_BATCH_SIZE) {
     return jsonRpcError(
       request,
-      id,
+      null,
       -32600,
-      'Invalid Request: must use JSON-RPC 2.0'
+      `Invalid Request: batch exceeds ${MAX_BATCH_SIZE} messages`
     )
   }
 
-  // ── Look up endpoint ──────────────────────────────────────────────
+  const ctx = await resolveGatewayContext(request, endpointId, messages, isBatch)
+  if ('failure' in ctx) {
+    return ctx.failure
+  }
 
-  const endpoint = await lookupEndpoint(endpointId)
+  const concurrency = Math.min(
+    BATCH_CONCURRENCY,
+    ctx.endpoint.max_concurrent_calls || DEFAULT_MAX_CONCURRENT_CALLS
+  )
+  const run = (notify?: (message: unknown) => void) =>
+    mapWithConcurrency(messages, concurrency, (message) => handleMessage(ctx, message, notify))
 
-  if (!endpoint) {
-    return jsonRpcError(request, id, -32001, 'Endpoint not found')
+  const wantsProgress = messages.some(
+    (m) => m?.method === 'tools/call' && progressTokenOf(m.params) !== undefined
+  )
+  if (wantsSSE && wantsProgress) {
+    return streamReplies(isBatch, run)
   }
 
-  if (!endpoint.is_active) {
-    return jsonRpcError(request, id, -32002, 'Endpoint is inactive')
+  return sendReplies(request, isBatch, await run())
+}
+
+// ─── JSON-RPC methods ───────────────────────────────────────────────
+
+/** A tools/call result reporting a failed call to the model. */
+function toolError(id: RpcId, error: string | undefined): RpcReply {
+  return rpcResult(id, {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ error }),
+      },
+    ],
+    isError: true,
+  })
+}
+
+function rateLimited(
+  ctx: GatewayContext,
+  id: RpcId,
+  operation: string,
+  slot: RateLimitCheck
+): RpcReply {
+  logMcp('POST.rate_limited', {
+    endpointId: ctx.endpointId,
+    operation,
+    reason: slot.reason,
+    retryAfterSeconds: slot.retryAfterSeconds,
+  })
+  return rpcError(
+    id,
+    -32004,
+    `${slot.reason}. Retry after ${slot.retryAfterSeconds}s.`,
+    { 'Retry-After': String(slot.retryAfterSeconds) },
+    { retryAfter: slot.retryAfterSeconds }
+  )
+}
+
+/**
+ * Run a handler operation for resources/*. Same credentials and
+ * per-endpoint rate limits as tools/call, but not counted against the
+ * daily quota or logged to usage_logs — reading the schema shouldn't
+ * cost the customer tool calls.
+ */
+async function runResourceOp(
+  ctx: GatewayContext,
+  id: RpcId,
+  op: string,
+  args: Record<string, any>
+): Promise<{ data: any } | { error: string } | { reply: RpcReply }> {
+  let resolved: ResolvedCredential
+  try {
+    resolved = ctx.credentialConfig()
+  } catch {
+    return { reply: rpcError(id, -32000, 'Failed to decrypt credentials. They may need to be re-added.') }
   }
 
-  const credential = endpoint.credentials
+  if (!resolved.ok) {
+    return { reply: rpcError(id, -32000, resolved.error) }
+  }
 
-  if (!credential || !credential.is_active) {
-    return jsonRpcError(request, id, -32001, 'Credential not found or inactive')
+  const slot = acquireEndpointSlot(ctx.endpoint.id, ctx.endpoint)
+  if (!slot.allowed) {
+    return { reply: rateLimited(ctx, id, op, slot) }
   }
 
-  // ── Check usage limits ────────────────────────────────────────────
+  try {
+    const result = await ctx.service.handleTool(op, args, resolved.config, {
+      allowedTables: scopeAllowedTables(resolved.allowedTables, ctx.endpoint.allowed_tables),
+      signal: ctx.clientSignal,
+    })
+    return result.success
+      ? { data: result.data }
+      : { error: result.error || 'Failed to read resource' }
+  } finally {
+    slot.release()
+  }
+}
 
-  const { canMakeRequest } = await import('@/lib/usage-limits')
-  const usageCheck = await canMakeRequest(endpoint.organization_id)
+/**
+ * Handle one JSON-RPC message. Returns null for notifications. `notify`
+ * is set when the response is streamed, for progress notifications.
+ */
+async function handleMessage(
+  ctx: GatewayContext,
+  message: any,
+  notify?: (message: unknown) => void
+): Promise<RpcReply | null> {
+  const { endpointId, endpoint, credential, service, session } = ctx
+  const startTime = Date.now()
 
-  if (!usageCheck.allowed) {
-    return jsonRpcError(
-      request,
-      id,
-      -32003,
-      usageCheck.reason || 'Rate limit exceeded. Please upgrade your plan.'
-    )
+  // Validate JSON-RPC format
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    return rpcError(null, -32600, 'Invalid Request: expected a JSON-RPC object')
   }
 
-  // ── Update last_accessed_at ───────────────────────────────────────
+  const { jsonrpc, id, method, params: rpcParams } = message
 
-  const admin = createAdminClient()
-  admin
-    .from('mcp_endpoints')
-    .update({ last_accessed_at: new Date().toISOString() })
-    .eq('id', endpoint.id)
-    .then(() => {}) // fire and forget
+  if (jsonrpc !== '2.0') {
+    return rpcError(id, -32600, 'Invalid Request: must use JSON-RPC 2.0')
+  }
+
+  // ── Cancellation ──────────────────────────────────────────────────
+  if (method === 'notifications/cancelled') {
+    const requestId = rpcParams?.requestId
+    // Only sessions scope request IDs to one client (lib/inflight-calls.ts)
+    const found = cancelToolCall(ctx.session?.id ?? null, requestId, rpcParams?.reason)
+    logMcp('POST.cancel', { endpointId, requestId, found, reason: rpcParams?.reason })
+    return null
+  }
 
-  // ── Handle JSON-RPC methods ───────────────────────────────────────
+  // ── Notifications (no response needed) ────────────────────────────
+  if (isNotification(message)) {
+    return null
+  }
 
   switch (method) {
     // ── Initialize ──────────────────────────────────────────────────
     case 'initialize': {
+      if (ctx.isBatch) {
+        return rpcError(id, -32600, 'Invalid Request: initialize must not be sent in a batch')
+      }
+
       // Echo the client's requested protocolVersion when it's one we
       // support; otherwise fall back to our current default. This keeps
       // older clients (Zapier MCP v4.0.1, Claude Desktop) happy without
       // forcing a single version onto everyone.
-      const SUPPORTED_PROTOCOL_VERSIONS = new Set([
-        '2024-11-05',
-        '2025-03-26',
-        '2025-06-18',
-      ])
       const requested = rpcParams?.protocolVersion
       const protocolVersion =
         typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.has(requested)
           ? requested
-          : '2025-03-26'
+          : DEFAULT_PROTOCOL_VERSION
 
-      return jsonRpcSuccess(request, id, {
+      const newSession = await createSession(endpoint, protocolVersion, rpcParams?.clientInfo)
+
+      logMcp('POST.session_created', {
+        endpointId,
+        sessionId: newSession?.id,
         protocolVersion,
-        capabilities: {
-          tools: { listChanged: false },
-        },
-        serverInfo: {
-          name: 'Synra MCP Gateway',
-          version: '1.0.0',
-        },
+        clientName: newSession?.client_name,
+        clientVersion: newSession?.client_version,
       })
-    }
 
-    // ── Notifications (no response needed) ──────────────────────────
-    case 'notifications/initialized':
-    case 'notifications/cancelled':
-    case 'notifications/progress':
-    case 'notifications/roots/list_changed': {
-      // Per MCP Streamable HTTP spec: input that is solely
-      // notifications/responses MUST receive HTTP 202 Accepted, no body.
-      return new NextResponse(null, { status: 202, headers: CORS_HEADERS })
+      return rpcResult(
+        id,
+        {
+          protocolVersion,
+          capabilities: {
+            tools: { listChanged: false },
+            ...(enabledResources(service, endpoint).schema ? { resources: { listChanged: false } } : {}),
+            prompts: { listChanged: false },
+          },
+          serverInfo: {
+            name: 'Synra MCP Gateway',
+            version: '1.0.0',
+          },
+        },
+        newSession ? { 'Mcp-Session-Id': newSession.id } : undefined
+      )
     }
 
     // ── List tools ──────────────────────────────────────────────────
     case 'tools/list': {
-      // Select tool definitions based on service.
-      // Neon is a first-class service that uses the PostgreSQL handler under the hood.
-      let tools =
-        endpoint.service_slug === 'postgresql' || endpoint.service_slug === 'neon'
-          ? POSTGRESQL_TOOLS
-          : endpoint.service_slug === 'mysql'
-            ? MYSQL_TOOLS
-            : endpoint.service_slug === 'mssql'
-              ? MSSQL_TOOLS
-              : SUPABASE_TOOLS
-
       // Filter by allowed_tools if set on the endpoint
-      if (
-        endpoint.allowed_tools &&
-        Array.isArray(endpoint.allowed_tools) &&
-        endpoint.allowed_tools.length > 0
-      ) {
-        tools = tools.filter((t) =>
-          endpoint.allowed_tools.includes(t.name)
-        )
-      }
+      const tools = service.tools.filter((t) => isToolEnabled(endpoint, t.name))
 
       logMcp('POST.tools_list', {
         endpointId,
         serviceSlug: endpoint.service_slug,
         toolCount: tools.length,
         toolNames: tools.map((t) => t.name),
-        responseFormat: wantsSSE ? 'sse' : 'json',
+        responseFormat: ctx.wantsSSE ? 'sse' : 'json',
       })
 
-      return jsonRpcSuccess(request, id, { tools })
+      return rpcResult(id, { tools: tools.map((t) => toolForProtocol(t, ctx.protocolVersion)) })
     }
 
     // ── Call a tool ─────────────────────────────────────────────────
@@ -459,163 +1008,108 @@ export async function POST(
       const toolArgs = rpcParams?.arguments || {}
 
       if (!toolName) {
-        return jsonRpcError(
-          request,
-          id,
-          -32602,
-          'Invalid params: tool name is required'
-        )
+        return rpcError(id, -32602, 'Invalid params: tool name is required')
       }
 
-      // Select tool definitions based on service. Neon -> PostgreSQL handler.
-      const availableTools =
-        endpoint.service_slug === 'postgresql' || endpoint.service_slug === 'neon'
-          ? POSTGRESQL_TOOLS
-          : endpoint.service_slug === 'mysql'
-            ? MYSQL_TOOLS
-            : endpoint.service_slug === 'mssql'
-              ? MSSQL_TOOLS
-              : SUPABASE_TOOLS
-
       // Verify tool exists
-      const toolExists = availableTools.some((t) => t.name === toolName)
-      if (!toolExists) {
-        return jsonRpcError(request, id, -32601, `Tool not found: ${toolName}`)
+      const tool = service.tools.find((t) => t.name === toolName)
+      if (!tool) {
+        return rpcError(id, -32601, `Tool not found: ${toolName}`)
       }
 
       // Check allowed_tools restriction
-      if (
-        endpoint.allowed_tools &&
-        Array.isArray(endpoint.allowed_tools) &&
-        endpoint.allowed_tools.length > 0 &&
-        !endpoint.allowed_tools.includes(toolName)
-      ) {
-        return jsonRpcError(
-          request,
-          id,
-          -32601,
-          `Tool '${toolName}' is not enabled for this endpoint`
-        )
+      if (!isToolEnabled(endpoint, toolName)) {
+        return rpcError(id, -32601, `Tool '${toolName}' is not enabled for this endpoint`)
       }
 
-      // Decrypt credentials
-      let decryptedConfig: Record<string, string>
-      try {
-        decryptedConfig = decryptCredentialConfig(credential.config)
-      } catch (err: any) {
-        return jsonRpcError(
-          request,
+      // Row-returning tools take a `format`; the endpoint sets the default
+      const acceptsFormat = 'format' in tool.inputSchema.properties
+      if (acceptsFormat && toolArgs.format !== undefined && !isResultFormat(toolArgs.format)) {
+        return rpcError(
           id,
-          -32000,
-          'Failed to decrypt credentials. They may need to be re-added.'
+          -32602,
+          `Invalid params: format must be one of ${RESULT_FORMATS.join(', ')}`
         )
       }
-
-      // Parse allowed_tables from config (empty array = no restriction)
-      let allowedTables: string[] | undefined
-      if (decryptedConfig.allowed_tables) {
-        try {
-          const parsed = JSON.parse(decryptedConfig.allowed_tables)
-          if (Array.isArray(parsed) && parsed.length > 0) {
-            allowedTables = parsed
-          }
-        } catch {
-          // Ignore malformed allowed_tables — treat as no restriction
+      const format = acceptsFormat
+        ? toolArgs.format ??
+          (isResultFormat(endpoint.result_format) ? endpoint.result_format : DEFAULT_RESULT_FORMAT)
+        : DEFAULT_RESULT_FORMAT
+
+      // fetch_more re-runs its cursor's statement as execute_sql, from
+      // the first row not yet returned
+      let handlerTool = toolName
+      let handlerArgs = toolArgs
+      let rowOffset: number | undefined
+      if (toolName === FETCH_MORE_TOOL.name) {
+        const cursor = resolveCursor(toolArgs.cursor, ctx.callScope)
+        if (!cursor) {
+          return toolError(id, 'Cursor is unknown or expired. Run the query again with execute_sql.')
         }
+        handlerTool = 'execute_sql'
+        handlerArgs = cursor.args
+        rowOffset = cursor.offset
       }
 
-      // Route to the correct handler based on service
-      let result
-
-      if (endpoint.service_slug === 'postgresql' || endpoint.service_slug === 'neon') {
-        const pgConfig: PostgresqlConfig = {
-          host: decryptedConfig.host,
-          port: decryptedConfig.port || '5432',
-          database: decryptedConfig.database,
-          user: decryptedConfig.user,
-          password: decryptedConfig.password,
-          ssl: decryptedConfig.ssl,
-        }
-
-        if (!pgConfig.host || !pgConfig.database || !pgConfig.user || !pgConfig.password) {
-          const availableKeys = Object.keys(decryptedConfig).join(', ')
-          const serviceLabel = endpoint.service_slug === 'neon' ? 'Neon' : 'PostgreSQL'
-          return jsonRpcError(
-            request,
-            id,
-            -32000,
-            `Incomplete ${serviceLabel} credentials. Found keys: [${availableKeys}]. Need host, database, user, and password.`
-          )
-        }
-
-        result = await handlePostgresqlTool(toolName, toolArgs, pgConfig, allowedTables)
-      } else if (endpoint.service_slug === 'mysql') {
-        const mysqlConfig: MysqlConfig = {
-          host: decryptedConfig.host,
-          port: decryptedConfig.port || '3306',
-          database: decryptedConfig.database,
-          user: decryptedConfig.user,
-          password: decryptedConfig.password,
-          ssl: decryptedConfig.ssl,
-        }
+      // Decrypt, build and validate the service config
+      let resolved: ResolvedCredential
+      try {
+        resolved = ctx.credentialConfig()
+      } catch (err: any) {
+        return rpcError(id, -32000, 'Failed to decrypt credentials. They may need to be re-added.')
+      }
 
-        if (!mysqlConfig.host || !mysqlConfig.database || !mysqlConfig.user || !mysqlConfig.password) {
-          const availableKeys = Object.keys(decryptedConfig).join(', ')
-          return jsonRpcError(
-            request,
-            id,
-            -32000,
-            `Incomplete MySQL credentials. Found keys: [${availableKeys}]. Need host, database, user, and password.`
-          )
-        }
+      if (!resolved.ok) {
+        return rpcError(id, -32000, resolved.error)
+      }
 
-        result = await handleMysqlTool(toolName, toolArgs, mysqlConfig, allowedTables)
-      } else if (endpoint.service_slug === 'mssql') {
-        const mssqlConfig: MssqlConfig = {
-          host: decryptedConfig.host,
-          port: decryptedConfig.port || '1433',
-          database: decryptedConfig.database,
-          user: decryptedConfig.user,
-          password: decryptedConfig.password,
-          ssl: decryptedConfig.ssl,
-        }
+      // Per-endpoint limits (calls/minute + in flight). Rejected calls
+      // aren't logged to usage_logs, so they don't eat the daily quota.
+      const slot = acquireEndpointSlot(endpoint.id, endpoint)
+      if (!slot.allowed) {
+        return rateLimited(ctx, id, toolName, slot)
+      }
 
-        if (!mssqlConfig.host || !mssqlConfig.database || !mssqlConfig.user || !mssqlConfig.password) {
-          const availableKeys = Object.keys(decryptedConfig).join(', ')
-          return jsonRpcError(
-            request,
-            id,
-            -32000,
-            `Incomplete MS SQL Server credentials. Found keys: [${availableKeys}]. Need host, database, user, and password.`
-          )
-        }
+      const call = trackToolCall(ctx.session?.id ?? null, id, ctx.clientSignal)
+      const token = progressTokenOf(rpcParams)
+      const progress = notify && token !== undefined ? startProgress(token, notify) : null
 
-        result = await handleMssqlTool(toolName, toolArgs, mssqlConfig, allowedTables)
-      } else {
-        // Supabase (default)
-        const supabaseUrl = decryptedConfig.url || decryptedConfig.supabase_url || decryptedConfig.project_url
-        const apiKey =
-          decryptedConfig.service_role_key ||
-          decryptedConfig.api_key ||
-          decryptedConfig.anon_key ||
-          decryptedConfig.key
-
-        if (!supabaseUrl || !apiKey) {
-          const availableKeys = Object.keys(decryptedConfig).join(', ')
-          return jsonRpcError(
-            request,
+      let result
+      try {
+        // Admit the call against the org's daily quota (atomic check + count)
+        const admission = await canMakeRequest(endpoint.organization_id, endpoint.id)
+        if (!admission.allowed) {
+          return rpcError(
             id,
-            -32000,
-            `Incomplete credentials. Found keys: [${availableKeys}]. Need a URL and API key.`
+            -32003,
+            admission.reason || 'Rate limit exceeded. Please upgrade your plan.'
           )
         }
 
-        result = await handleSupabaseTool(toolName, toolArgs, supabaseUrl, apiKey, allowedTables)
+        result = await service.handleTool(
+          handlerTool,
+          handlerArgs,
+          resolved.config,
+          {
+            allowedTables: scopeAllowedTables(resolved.allowedTables, endpoint.allowed_tables),
+            sqlDenylist: endpoint.sql_denylist,
+            costGuard: costGuardFromEndpoint(endpoint),
+            signal: call.signal,
+            onProgress: progress?.report,
+            rowOffset,
+          }
+        )
+      } finally {
+        progress?.stop()
+        call.done()
+        slot.release()
       }
 
       const durationMs = Date.now() - startTime
+      const cancelled = call.signal.aborted
 
       // Log usage (fire and forget)
+      const admin = createAdminClient()
       admin
         .from('usage_logs')
         .insert({
@@ -624,51 +1118,157 @@ export async function POST(
           service_slug: endpoint.service_slug,
           tool_name: toolName,
           request_data: { arguments: toolArgs },
-          response_status: result.success ? 'success' : 'error',
-          error_message: result.error || null,
+          response_status: cancelled ? 'cancelled' : result.success ? 'success' : 'error',
+          error_message: cancelled ? String(call.signal.reason) : result.error || null,
           duration_ms: durationMs,
+          session_id: session?.id ?? null,
+          endpoint_id: endpoint.id,
+          user_agent: ctx.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+          via_previous_url: ctx.viaPreviousUrl,
         })
         .then(() => {}) // fire and forget
 
+      // The client has dropped the request; per spec it gets no response.
+      if (cancelled) {
+        logMcp('POST.tool_cancelled', { endpointId, toolName, id, durationMs })
+        return null
+      }
+
       if (!result.success) {
-        return jsonRpcSuccess(request, id, {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ error: result.error }),
-            },
-          ],
-          isError: true,
-        })
+        return toolError(id, result.error)
       }
 
-      return jsonRpcSuccess(request, id, {
+      const data =
+        handlerTool === 'execute_sql'
+          ? attachCursor(result.data, ctx.callScope, { sql: handlerArgs.sql, params: handlerArgs.params })
+          : result.data
+
+      // Tools with an outputSchema also return the data as
+      // structuredContent to 2025-06-18 clients; the text block stays
+      // for clients that only read content.
+      return rpcResult(id, {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result.data, null, 2),
+            text: formatToolResult(data, format),
           },
         ],
+        ...(tool.outputSchema && ctx.protocolVersion >= STRUCTURED_OUTPUT_SINCE
+          ? { structuredContent: toStructuredContent(renderResultRows(data)) }
+          : {}),
       })
     }
 
+    // ── Resources (database schema) ─────────────────────────────────
+    case 'resources/templates/list': {
+      const resources = enabledResources(service, endpoint)
+      if (!resources.schema) {
+        return rpcError(id, -32601, `Method not found: ${method}`)
+      }
+      return rpcResult(id, { resourceTemplates: resources.tables ? RESOURCE_TEMPLATES : [] })
+    }
+
+    case 'resources/list': {
+      const resources = enabledResources(service, endpoint)
+      if (!resources.schema) {
+        return rpcError(id, -32601, `Method not found: ${method}`)
+      }
+      if (!resources.tables) {
+        return rpcResult(id, { resources: listResourceEntries([]) })
+      }
+      const listed = await runResourceOp(ctx, id, 'list_tables', {})
+      if ('reply' in listed) return listed.reply
+      if ('error' in listed) return rpcError(id, -32603, listed.error)
+      return rpcResult(id, { resources: listResourceEntries(listed.data?.tables || []) })
+    }
+
+    case 'resources/read': {
+      const resources = enabledResources(service, endpoint)
+      if (!resources.schema) {
+        return rpcError(id, -32601, `Method not found: ${method}`)
+      }
+      const uri = rpcParams?.uri
+      const operation = resourceOperation(uri)
+      if (!operation || (operation.op === TABLE_RESOURCE_OP && !resources.tables)) {
+        return rpcError(id, -32002, `Resource not found: ${uri}`)
+      }
+      const read = await runResourceOp(ctx, id, operation.op, operation.args)
+      if ('reply' in read) return read.reply
+      if ('error' in read) return rpcError(id, -32002, read.error, undefined, { uri })
+      return rpcResult(id, resourceContents(uri, read.data))
+    }
+
+    // ── Prompts (templates authored in the dashboard) ───────────────
+    case 'prompts/list': {
+      const prompts = await listEndpointPrompts(endpoint.id)
+      return rpcResult(id, { prompts: prompts.map(toMcpPrompt) })
+    }
+
+    case 'prompts/get': {
+      const name = rpcParams?.name
+      if (typeof name !== 'string' || !name) {
+        return rpcError(id, -32602, 'Invalid params: prompt name is required')
+      }
+      const prompt = await getEndpointPrompt(endpoint.id, name)
+      if (!prompt) {
+        return rpcError(id, -32602, `Prompt not found: ${name}`)
+      }
+      const rendered = renderPrompt(prompt, rpcParams?.arguments)
+      if (!rendered.ok) {
+        return rpcError(id, -32602, `Invalid params: ${rendered.error}`)
+      }
+      return rpcResult(id, rendered.result)
+    }
+
     // ── Ping ────────────────────────────────────────────────────────
     case 'ping': {
-      return jsonRpcSuccess(request, id, {})
+      return rpcResult(id, {})
     }
 
     // ── Unknown method ──────────────────────────────────────────────
     default: {
-      return jsonRpcError(request, id, -32601, `Method not found: ${method}`)
+      return rpcError(id, -32601, `Method not found: ${method}`)
     }
   }
 }
 
-// ─── DELETE (not allowed) ───────────────────────────────────────────
+// ─── DELETE (terminate session) ─────────────────────────────────────
 
-export async function DELETE() {
-  return NextResponse.json(
-    { error: 'Method not allowed' },
-    { status: 405, headers: CORS_HEADERS }
-  )
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ endpointId: string }> }
+) {
+  const { endpointId } = await params
+  const sessionId = request.headers.get('mcp-session-id')
+
+  logMcp('DELETE', { endpointId, sessionId })
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: 'Mcp-Session-Id header is required' },
+      { status: 400, headers: CORS_HEADERS }
+    )
+  }
+
+  const endpoint = await lookupEndpoint(endpointId)
+
+  if (endpoint) {
+    const denied = enforceNetworkPolicy(request, endpoint, endpointId)
+    if (denied) {
+      return denied
+    }
+    const unauthorized = await requireBearer(request, endpoint, endpointId)
+    if (unauthorized) {
+      return unauthorized
+    }
+  }
+
+  if (!endpoint || !(await terminateSession(sessionId, endpoint.id))) {
+    return NextResponse.json(
+      { error: 'Session not found' },
+      { status: 404, headers: CORS_HEADERS }
+    )
+  }
+
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS })
 }
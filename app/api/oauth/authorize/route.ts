@@ -0,0 +1,120 @@
+import { createServerClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getPublicOrigin } from '@/lib/public-origin'
+import {
+  authorizationRedirect,
+  checkAuthorizeRequest,
+  issueAuthorizationCode,
+  readAuthorizeParams,
+} from '@/lib/oauth'
+import type { AuthorizeCheck, AuthorizeParams } from '@/lib/oauth'
+import { NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Validate the authorization request for the signed-in user. Errors the
+ * client should hear about go back to its redirect_uri; errors about the
+ * client or redirect_uri itself are shown on the consent screen.
+ */
+async function checkForUser(request: NextRequest, params: AuthorizeParams) {
+  const supabase = await createServerClient()
+  const admin = createAdminClient()
+
+  const { data: { user: authUser } } = await supabase.auth.getUser()
+  if (!authUser) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) }
+  }
+
+  const { data: membership } = await admin
+    .from('organization_members')
+    .select('organization_id, organizations(name)')
+    .eq('user_id', authUser.id)
+    .single()
+
+  if (!membership) {
+    return { response: NextResponse.json({ error: 'No organization found' }, { status: 404 }) }
+  }
+
+  const check: AuthorizeCheck = await checkAuthorizeRequest(
+    params,
+    getPublicOrigin(request),
+    membership.organization_id
+  )
+  if (!check.ok) {
+    return {
+      response: NextResponse.json(
+        check.redirect
+          ? {
+              redirect_to: authorizationRedirect(params.redirect_uri, {
+                error: check.error,
+                error_description: check.error_description,
+                state: params.state,
+              }),
+            }
+          : { error: check.error_description },
+        { status: check.redirect ? 200 : 400 }
+      ),
+    }
+  }
+
+  return { authUser, membership, check }
+}
+
+// GET — describe an authorization request for the consent screen
+export async function GET(request: NextRequest) {
+  try {
+    const params = readAuthorizeParams(request.nextUrl.searchParams)
+    const result = await checkForUser(request, params)
+    if ('response' in result) return result.response
+
+    const { membership, check } = result
+    return NextResponse.json({
+      client_name: check.client.client_name,
+      client_uri: check.client.client_uri,
+      redirect_host: new URL(params.redirect_uri).host || params.redirect_uri,
+      organization_name: (membership as any).organizations?.name ?? null,
+      endpoint_url: check.endpoint?.endpoint_url ?? null,
+    })
+  } catch (error: any) {
+    console.error('GET oauth authorize error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
+
+// POST — the user's decision: { ...authorization params, approve: boolean }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const params = readAuthorizeParams(body)
+    const result = await checkForUser(request, params)
+    if ('response' in result) return result.response
+
+    const { authUser, membership, check } = result
+
+    if (body.approve !== true) {
+      return NextResponse.json({
+        redirect_to: authorizationRedirect(params.redirect_uri, {
+          error: 'access_denied',
+          error_description: 'The user denied the request',
+          state: params.state,
+        }),
+      })
+    }
+
+    const code = await issueAuthorizationCode(
+      params,
+      authUser.id,
+      membership.organization_id,
+      check.endpoint?.id ?? null
+    )
+    if (!code) {
+      return NextResponse.json({ error: 'Failed to issue authorization code' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      redirect_to: authorizationRedirect(params.redirect_uri, { code, state: params.state }),
+    })
+  } catch (error: any) {
+    console.error('POST oauth authorize error:', error)
+    return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+}
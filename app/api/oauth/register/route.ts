@@ -0,0 +1,29 @@
+import { OAUTH_CORS_HEADERS, registerClient } from '@/lib/oauth'
+import { NextRequest, NextResponse } from 'next/server'
+
+// POST — RFC 7591 dynamic client registration (public, unauthenticated)
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'invalid_client_metadata', error_description: 'Body must be JSON' },
+      { status: 400, headers: OAUTH_CORS_HEADERS }
+    )
+  }
+
+  const result = await registerClient(body)
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.error, error_description: result.error_description },
+      { status: result.error === 'server_error' ? 500 : 400, headers: OAUTH_CORS_HEADERS }
+    )
+  }
+
+  return NextResponse.json(result.client, { status: 201, headers: OAUTH_CORS_HEADERS })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS })
+}
@@ -0,0 +1,47 @@
+import { getPublicOrigin } from '@/lib/public-origin'
+import { OAUTH_CORS_HEADERS, exchangeAuthorizationCode, refreshAccessToken } from '@/lib/oauth'
+import { NextRequest, NextResponse } from 'next/server'
+
+const TOKEN_HEADERS = { ...OAUTH_CORS_HEADERS, 'Cache-Control': 'no-store', Pragma: 'no-cache' }
+
+function tokenError(error: string, description: string, status = 400) {
+  return NextResponse.json({ error, error_description: description }, { status, headers: TOKEN_HEADERS })
+}
+
+// POST — OAuth token endpoint (authorization_code and refresh_token grants).
+// Clients are public, so there's no client authentication; PKCE and
+// refresh-token rotation stand in for it.
+export async function POST(request: NextRequest) {
+  let form: Record<string, string | undefined>
+  try {
+    const contentType = request.headers.get('content-type') || ''
+    form = contentType.includes('application/json')
+      ? await request.json()
+      : Object.fromEntries(new URLSearchParams(await request.text()))
+  } catch {
+    return tokenError('invalid_request', 'Body must be application/x-www-form-urlencoded')
+  }
+
+  const origin = getPublicOrigin(request)
+  let result
+  switch (form.grant_type) {
+    case 'authorization_code':
+      result = await exchangeAuthorizationCode(form, origin)
+      break
+    case 'refresh_token':
+      result = await refreshAccessToken(form, origin)
+      break
+    default:
+      return tokenError('unsupported_grant_type', 'grant_type must be authorization_code or refresh_token')
+  }
+
+  if (!result.ok) {
+    return tokenError(result.error, result.error_description, result.error === 'server_error' ? 500 : 400)
+  }
+
+  return NextResponse.json(result.body, { headers: TOKEN_HEADERS })
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: OAUTH_CORS_HEADERS })
+}
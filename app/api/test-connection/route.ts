@@ -1,11 +1,7 @@
 import { createServerClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
-import { decrypt } from '@/lib/encryption'
+import { getMcpService, resolveCredentialConfig } from '@/lib/mcp-handlers/registry'
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import { Client as PgClient } from 'pg'
-import mysql from 'mysql2/promise'
-import sql from 'mssql'
 import { hasPaidAccess } from '@/lib/subscription-access'
 
 const MAX_TEST_QUERIES = 10
@@ -63,6 +59,18 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
     }
 
+    // Resolve the service the same way the MCP gateway does. Done before
+    // the test query counter so incomplete credentials don't burn a query.
+    const service = getMcpService(credential.service_slug)
+    if (!service || (!service.listTables && !service.testConnection)) {
+      return NextResponse.json({ error: 'Connection testing is not supported for this service type' }, { status: 400 })
+    }
+
+    const resolved = resolveCredentialConfig(service, credential.config)
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 })
+    }
+
     // Check if user has paid access (lifetime/AppSumo have no Stripe subscription ID)
     const { data: subscription } = await admin
       .from('subscriptions')
@@ -90,277 +98,36 @@ export async function POST(request: NextRequest) {
         .eq('id', credentialId)
     }
 
-    // Decrypt config
-    const decryptedConfig: Record<string, string> = {}
-    for (const [key, value] of Object.entries(credential.config as Record<string, string>)) {
-      if (typeof value === 'string' && value.length > 0) {
-        try {
-          decryptedConfig[key] = decrypt(value)
-        } catch {
-          decryptedConfig[key] = value
-        }
-      }
-    }
-
     const remainingQueries = hasPaidSubscription 
       ? 'unlimited' 
       : MAX_TEST_QUERIES - (credential.test_queries_used || 0) - 1
 
-    // Get service_slug to determine which test to run
-    const serviceSlug = credential.service_slug
-
-    // ── PostgreSQL test connection ─────────────────────────────────
-    // Neon speaks the Postgres wire protocol — route it through the same path.
-    if (serviceSlug === 'postgresql' || serviceSlug === 'neon') {
-      const host = decryptedConfig.host
-      const port = decryptedConfig.port || '5432'
-      const database = decryptedConfig.database
-      const user = decryptedConfig.user
-      const password = decryptedConfig.password
-      const useSsl = decryptedConfig.ssl === 'true' || decryptedConfig.ssl === '1'
-
-      if (!host || !database || !user || !password) {
-        return NextResponse.json({ error: 'Incomplete PostgreSQL credentials' }, { status: 400 })
-      }
-
-      const pgClient = new PgClient({
-        host,
-        port: parseInt(port, 10) || 5432,
-        database,
-        user,
-        password,
-        ssl: useSsl ? { rejectUnauthorized: false } : undefined,
-        connectionTimeoutMillis: 10000,
-        statement_timeout: 15000,
-      })
-
-      try {
-        await pgClient.connect()
-
-        const result = await pgClient.query(
-          `SELECT table_name 
-           FROM information_schema.tables 
-           WHERE table_schema = 'public' 
-           AND table_type = 'BASE TABLE'
-           ORDER BY table_name`
-        )
-
-        const tables = result.rows.map((r: any) => r.table_name)
-        const tableCount = tables.length
-
-        const claudeMessage = generateClaudeMessage(tables, tableCount)
-
-        return NextResponse.json({
-          success: true,
-          message: 'Connection successful!',
-          sample_data: {
-            table_count: tableCount,
-            sample_tables: tables.slice(0, 5),
-            claude_says: claudeMessage,
-          },
-          remaining_test_queries: remainingQueries,
-        })
-      } catch (err: any) {
-        return NextResponse.json({
-          success: false,
-          error: 'PostgreSQL connection failed',
-          details: err.message || 'Unable to connect to database',
-        })
-      } finally {
-        try {
-          await pgClient.end()
-        } catch {
-          // Ignore close errors
-        }
-      }
-    }
-
-    // ── MySQL test connection ─────────────────────────────────────
-    if (serviceSlug === 'mysql') {
-      const host = decryptedConfig.host
-      const port = decryptedConfig.port || '3306'
-      const database = decryptedConfig.database
-      const user = decryptedConfig.user
-      const password = decryptedConfig.password
-      const useSsl = decryptedConfig.ssl === 'true' || decryptedConfig.ssl === '1'
-
-      if (!host || !database || !user || !password) {
-        return NextResponse.json({ error: 'Incomplete MySQL credentials' }, { status: 400 })
-      }
-
-      let conn: mysql.Connection | null = null
-
-      try {
-        conn = await mysql.createConnection({
-          host,
-          port: parseInt(port, 10) || 3306,
-          database,
-          user,
-          password,
-          ssl: useSsl ? {} : undefined,
-          connectTimeout: 10000,
-        })
-
-        const [rows] = await conn.execute(
-          `SELECT TABLE_NAME 
-           FROM INFORMATION_SCHEMA.TABLES 
-           WHERE TABLE_SCHEMA = ? 
-           AND TABLE_TYPE = 'BASE TABLE'
-           ORDER BY TABLE_NAME`,
-          [database]
-        )
-
-        const tables = (rows as mysql.RowDataPacket[]).map((r) => r.TABLE_NAME)
-        const tableCount = tables.length
-
-        const claudeMessage = generateClaudeMessage(tables, tableCount)
-
-        return NextResponse.json({
-          success: true,
-          message: 'Connection successful!',
-          sample_data: {
-            table_count: tableCount,
-            sample_tables: tables.slice(0, 5),
-            claude_says: claudeMessage,
-          },
-          remaining_test_queries: remainingQueries,
-        })
-      } catch (err: any) {
-        return NextResponse.json({
-          success: false,
-          error: 'MySQL connection failed',
-          details: err.message || 'Unable to connect to database',
-        })
-      } finally {
-        if (conn) {
-          try {
-            await conn.end()
-          } catch {
-            // Ignore close errors
-          }
-        }
-      }
-    }
-
-    // ── MS SQL Server test connection ──────────────────────────────
-    if (serviceSlug === 'mssql') {
-      const host = decryptedConfig.host
-      const port = decryptedConfig.port || '1433'
-      const database = decryptedConfig.database
-      const user = decryptedConfig.user
-      const password = decryptedConfig.password
-      const useEncrypt = decryptedConfig.ssl === 'true' || decryptedConfig.ssl === '1'
-
-      if (!host || !database || !user || !password) {
-        return NextResponse.json({ error: 'Incomplete MS SQL Server credentials' }, { status: 400 })
-      }
-
-      let pool: sql.ConnectionPool | null = null
-
+    // ── API services (Mixpanel, Stripe): no tables to list ────────────
+    if (!service.listTables && service.testConnection) {
       try {
-        pool = await sql.connect({
-          server: host,
-          port: parseInt(port, 10) || 1433,
-          database,
-          user,
-          password,
-          options: {
-            encrypt: useEncrypt,
-            trustServerCertificate: useEncrypt,
-            connectTimeout: 10000,
-          },
-        })
-
-        const result = await pool.request().query(`
-          SELECT TABLE_SCHEMA, TABLE_NAME 
-          FROM INFORMATION_SCHEMA.TABLES 
-          WHERE TABLE_TYPE = 'BASE TABLE'
-          ORDER BY TABLE_SCHEMA, TABLE_NAME
-        `)
-
-        const tables = (result.recordset as any[]).map(
-          (r) => (r.TABLE_SCHEMA !== 'dbo' ? `${r.TABLE_SCHEMA}.${r.TABLE_NAME}` : r.TABLE_NAME)
-        )
-        const tableCount = tables.length
-
-        const claudeMessage = generateClaudeMessage(tables, tableCount)
+        const summary = await service.testConnection(resolved.config)
 
         return NextResponse.json({
           success: true,
           message: 'Connection successful!',
           sample_data: {
-            table_count: tableCount,
-            sample_tables: tables.slice(0, 5),
-            claude_says: claudeMessage,
+            claude_says: `Hi! I'm Claude 👋 ${summary} To connect in Claude Desktop: Customize -> Connectors -> Add custom connector -> paste your MCP endpoint URL.`,
           },
           remaining_test_queries: remainingQueries,
         })
       } catch (err: any) {
         return NextResponse.json({
           success: false,
-          error: 'MS SQL Server connection failed',
-          details: err.message || 'Unable to connect to database',
+          error: `${service.label} connection failed`,
+          details: err.message || 'Unable to reach the API',
         })
-      } finally {
-        if (pool) {
-          try {
-            await pool.close()
-          } catch {
-            // Ignore close errors
-          }
-        }
       }
     }
 
-    // ── Supabase test connection (default) ─────────────────────────
-
-    // Get Supabase URL and key
-    const supabaseUrl = decryptedConfig.url || decryptedConfig.supabase_url || decryptedConfig.project_url
-    const apiKey = decryptedConfig.service_role_key || decryptedConfig.api_key || decryptedConfig.anon_key || decryptedConfig.key
-
-    if (!supabaseUrl || !apiKey) {
-      return NextResponse.json({ error: 'Incomplete credentials' }, { status: 400 })
-    }
-
-    // Create Supabase client and test connection
+    // ── Databases: list tables ──────────────────────────────────────
     try {
-      // Get the OpenAPI schema from PostgREST - this lists all available tables
-      const schemaResponse = await fetch(`${supabaseUrl}/rest/v1/`, {
-        method: 'GET',
-        headers: {
-          'apikey': apiKey,
-          'Authorization': `Bearer ${apiKey}`,
-          'Accept': 'application/openapi+json',
-        },
-      })
-
-      // Check for auth errors
-      if (!schemaResponse.ok && schemaResponse.status === 401) {
-        return NextResponse.json({
-          success: false,
-          error: 'Invalid API key or unauthorized',
-          details: 'Check your Supabase URL and API key',
-        })
-      }
-
-      // Parse the OpenAPI schema to get table names
-      let tables: string[] = []
-      let tableCount = 0
-      
-      try {
-        const schema = await schemaResponse.json()
-        // OpenAPI schema has paths like "/table_name" for each table
-        if (schema.paths) {
-          tables = Object.keys(schema.paths)
-            .filter(path => path.startsWith('/') && !path.includes('{'))
-            .map(path => path.substring(1)) // remove leading slash
-            .filter(name => !name.startsWith('rpc/')) // exclude RPC functions
-            .sort()
-          tableCount = tables.length
-        }
-      } catch (e) {
-        // If we can't parse schema, that's OK - connection still works
-      }
+      const tables = await service.listTables!(resolved.config)
+      const tableCount = tables.length
 
       const claudeMessage = generateClaudeMessage(tables, tableCount)
 
@@ -377,8 +144,8 @@ export async function POST(request: NextRequest) {
     } catch (err: any) {
       return NextResponse.json({
         success: false,
-        error: 'Connection test failed',
-        details: err.message || 'Unable to reach Supabase URL',
+        error: `${service.label} connection failed`,
+        details: err.message || 'Unable to connect',
       })
     }
   } catch (error: any) {
@@ -1,5 +1,7 @@
 import { createServerClient } from '@/lib/supabase/server'
 import { createAdminClient } from '@/lib/supabase/admin'
+import { getTodayUsage, PLAN_LIMITS } from '@/lib/usage-limits'
+import type { PlanType } from '@/lib/usage-limits'
 import { NextRequest, NextResponse } from 'next/server'
 
 // GET — fetch usage logs with filters
@@ -70,6 +72,17 @@ export async function GET(request: NextRequest) {
       : 0
     const totalTokens = stats?.reduce((sum: number, s: any) => sum + (s.tokens_used || 0), 0) || 0
 
+    // Today's count against the plan's daily limit — same counters the
+    // MCP gateway enforces, so the numbers always match.
+    const { data: org } = await admin
+      .from('organizations')
+      .select('plan')
+      .eq('id', membership.organization_id)
+      .single()
+
+    const today = await getTodayUsage(membership.organization_id)
+    const dailyLimit = PLAN_LIMITS[(org?.plan as PlanType) || 'free']?.daily_requests ?? null
+
     // Format logs
     const formattedLogs = (logs || []).map((log: any) => ({
       id: log.id,
@@ -92,6 +105,11 @@ export async function GET(request: NextRequest) {
         avg_duration_ms: avgDuration,
         total_tokens: totalTokens,
       },
+      today: {
+        requests: today.total,
+        daily_limit: dailyLimit,
+        by_endpoint: today.byEndpoint,
+      },
       pagination: {
         limit,
         offset,
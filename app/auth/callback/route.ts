@@ -9,33 +9,7 @@
 import { createServerClient as createSSRClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { NextRequest, NextResponse } from 'next/server'
-
-/**
- * Resolve the user-facing public origin (e.g. "https://app.mcpserver.design")
- * even when Next.js sees the request via a reverse proxy that injects the
- * internal hostname (Railway uses localhost:8080 internally).
- *
- * Precedence:
- *   1. x-forwarded-host + x-forwarded-proto (set by every modern proxy)
- *   2. Host header (set by the browser, usually correct on direct hits)
- *   3. request.url's origin (fallback for unproxied / dev environments)
- */
-function getPublicOrigin(request: NextRequest): string {
-  const forwardedHost = request.headers.get('x-forwarded-host')
-  const forwardedProto = request.headers.get('x-forwarded-proto')
-  if (forwardedHost) {
-    const proto =
-      forwardedProto ||
-      (forwardedHost.startsWith('localhost') ? 'http' : 'https')
-    return `${proto}://${forwardedHost}`
-  }
-  const host = request.headers.get('host')
-  if (host && !host.startsWith('localhost')) {
-    const proto = forwardedProto || 'https'
-    return `${proto}://${host}`
-  }
-  return new URL(request.url).origin
-}
+import { getPublicOrigin, sameOriginPath } from '@/lib/public-origin'
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
@@ -45,7 +19,7 @@ export async function GET(request: NextRequest) {
   // avoids a wasteful round-trip out to the public internet and back).
   const internalOrigin = new URL(request.url).origin
   const code = searchParams.get('code')
-  const next = searchParams.get('next') || '/dashboard'
+  const next = sameOriginPath(searchParams.get('next'), publicOrigin)
   const errorParam = searchParams.get('error')
   const errorDescription = searchParams.get('error_description')
 
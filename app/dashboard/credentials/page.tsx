@@ -6,6 +6,8 @@ import type { SupportedService } from '@/types'
 import { trackEvent } from '@/lib/mixpanel'
 import { SupportChat, openAgent } from '@/components/SupportChat'
 import { hasPaidAccess } from '@/lib/subscription-access'
+import { CredentialEndpoints } from '@/components/CredentialEndpoints'
+import type { ManagedEndpoint } from '@/components/CredentialEndpoints'
 
 interface ConnectionItem {
   id: string
@@ -23,13 +25,13 @@ interface ConnectionItem {
 export default function ConnectionsPage() {
   const { user, organization } = useDashboard()
   const [connections, setConnections] = useState<ConnectionItem[]>([])
+  const [endpoints, setEndpoints] = useState<ManagedEndpoint[]>([])
   const [services, setServices] = useState<SupportedService[]>([])
   const [loading, setLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
-  const [copiedId, setCopiedId] = useState<string | null>(null)
   const [hasPaidSubscription, setHasPaidSubscription] = useState(false)
   const [testResults, setTestResults] = useState<Record<string, any>>({})
   const [testingId, setTestingId] = useState<string | null>(null)
@@ -61,6 +63,7 @@ export default function ConnectionsPage() {
         fetch('/api/credentials'),
         fetch('/api/services'),
         fetch('/api/auth/me'),
+        loadEndpoints(),
       ])
 
       if (credRes.ok) {
@@ -84,6 +87,23 @@ export default function ConnectionsPage() {
     }
   }
 
+  const loadEndpoints = async () => {
+    try {
+      const res = await fetch('/api/endpoints')
+      if (res.ok) {
+        const { endpoints: data } = await res.json()
+        // Oldest first, so a connection's original endpoint leads its list
+        setEndpoints(
+          (data || []).sort((a: ManagedEndpoint, b: ManagedEndpoint) =>
+            a.created_at.localeCompare(b.created_at)
+          )
+        )
+      }
+    } catch (err) {
+      console.error('Error loading endpoints:', err)
+    }
+  }
+
   const handleTestConnection = async (credentialId: string) => {
     setTestingId(credentialId)
     setTestResults((prev) => ({ ...prev, [credentialId]: null }))
@@ -123,7 +143,11 @@ export default function ConnectionsPage() {
     setError(null)
     setSuccess(null)
     setEditingId(null)
-    openAgent(`How do I connect my ${service.name} database to Synra?`)
+    openAgent(
+      supportsTableAccess(service.slug)
+        ? `How do I connect my ${service.name} database to Synra?`
+        : `How do I connect my ${service.name} account to Synra?`
+    )
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -201,6 +225,7 @@ export default function ConnectionsPage() {
 
         const fullUrl = `${window.location.origin}${endpoint.endpoint_url}`
         setSuccess(`Connection created! Your MCP endpoint: ${fullUrl}`)
+        loadEndpoints()
 
         trackEvent('connection_added', {
           service_slug: selectedService.slug,
@@ -283,6 +308,7 @@ export default function ConnectionsPage() {
 
       const deletedService = connections.find((c) => c.id === id)?.service_slug
       setConnections((prev) => prev.filter((c) => c.id !== id))
+      setEndpoints((prev) => prev.filter((ep) => ep.credential_id !== id))
       setSuccess('Connection deleted successfully')
       setDeleteConfirmId(null)
       trackEvent('connection_deleted', {
@@ -294,9 +320,8 @@ export default function ConnectionsPage() {
     }
   }
 
-  // Every connected service is a database — this gate stays in place only as
-  // a guard for future service types that may not expose listable tables
-  // (e.g. an API-only connector). Add the slug here when shipping such a service.
+  // API-only connectors (Mixpanel, Stripe) have no tables to restrict, so
+  // only database services get the Table Access panel.
   const supportsTableAccess = (slug: string) =>
     slug === 'postgresql' ||
     slug === 'neon' ||
@@ -641,6 +666,50 @@ export default function ConnectionsPage() {
         },
       ]
     }
+    if (service.slug === 'mixpanel') {
+      return [
+        {
+          key: 'project_id',
+          label: 'Project ID',
+          type: 'text' as const,
+          required: true,
+          encrypted: false,
+          placeholder: '1234567',
+          hint: 'Mixpanel → Project Settings → Overview → Project ID',
+        },
+        {
+          key: 'service_account_username',
+          label: 'Service Account Username',
+          type: 'text' as const,
+          required: true,
+          encrypted: false,
+          placeholder: 'synra.abc123.mp-service-account',
+          hint: 'Organization Settings → Service Accounts → add one with Analyst role',
+        },
+        {
+          key: 'service_account_secret',
+          label: 'Service Account Secret',
+          type: 'password' as const,
+          required: true,
+          encrypted: true,
+          placeholder: '',
+          hint: 'Shown once when the service account is created',
+        },
+      ]
+    }
+    if (service.slug === 'stripe') {
+      return [
+        {
+          key: 'secret_key',
+          label: 'Secret Key',
+          type: 'password' as const,
+          required: true,
+          encrypted: true,
+          placeholder: 'rk_live_...',
+          hint: 'Developers → API keys → create a restricted key with read-only access',
+        },
+      ]
+    }
     if (service.config_schema && Array.isArray(service.config_schema.fields)) {
       return service.config_schema.fields
     }
@@ -870,9 +939,6 @@ export default function ConnectionsPage() {
       {!showForm && connections.length > 0 ? (
         <div className="space-y-3">
           {connections.map((conn) => {
-            const fullEndpointUrl = conn.endpoint_url
-              ? `${typeof window !== 'undefined' ? window.location.origin : ''}${conn.endpoint_url}`
-              : null
             const testQueriesUsed = conn.test_queries_used || 0
             const testQueriesRemaining = 10 - testQueriesUsed
             const testResult = testResults[conn.id]
@@ -923,35 +989,23 @@ export default function ConnectionsPage() {
                   </div>
                 </div>
 
-                {/* MCP Endpoint URL */}
-                {fullEndpointUrl && (
-                  <div className="mb-4">
-                    <label className="block text-xs text-gray-500 uppercase tracking-wider mb-2">
-                      MCP Endpoint URL
-                    </label>
-                    <div className="relative">
-                      <div className="flex items-center gap-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md p-3">
-                        <code className="text-sm text-blue-400 font-mono flex-1 truncate">
-                          {fullEndpointUrl}
-                        </code>
-                        <button
-                          onClick={() => {
-                            navigator.clipboard.writeText(fullEndpointUrl)
-                            setCopiedId(conn.id)
-                            setTimeout(() => setCopiedId(null), 2000)
-                            trackEvent('gateway_url_copied', {
-                              credential_id: conn.id,
-                              service_slug: conn.service_slug,
-                            })
-                          }}
-                          className="px-3 py-1 text-xs bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white rounded transition-all flex-shrink-0"
-                        >
-                          {copiedId === conn.id ? 'Copied!' : 'Copy'}
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )}
+                {/* MCP Endpoints */}
+                <CredentialEndpoints
+                  credentialId={conn.id}
+                  serviceSlug={conn.service_slug}
+                  supportsTables={supportsTableAccess(conn.service_slug)}
+                  endpoints={endpoints.filter((ep) => ep.credential_id === conn.id)}
+                  onSaved={(endpoint) =>
+                    setEndpoints((prev) =>
+                      prev.some((ep) => ep.id === endpoint.id)
+                        ? prev.map((ep) => (ep.id === endpoint.id ? { ...ep, ...endpoint } : ep))
+                        : [...prev, endpoint]
+                    )
+                  }
+                  onDeleted={(endpointId) =>
+                    setEndpoints((prev) => prev.filter((ep) => ep.id !== endpointId))
+                  }
+                />
 
                 {/* Endpoint Stats */}
                 <div className="grid grid-cols-3 gap-4 text-sm mb-4">
@@ -1176,7 +1230,7 @@ export default function ConnectionsPage() {
           <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-6 max-w-md w-full mx-4">
             <h3 className="text-lg font-semibold text-white mb-3">Delete Connection?</h3>
             <p className="text-sm text-gray-400 mb-6">
-              This will permanently delete this connection and its MCP endpoint. This action cannot be undone.
+              This will permanently delete this connection and all of its MCP endpoints. This action cannot be undone.
             </p>
             <div className="flex gap-3">
               <button
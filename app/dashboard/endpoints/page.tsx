@@ -1,14 +1,37 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import { EndpointPrompts } from '@/components/EndpointPrompts'
+import { EndpointUrlRotation } from '@/components/EndpointUrlRotation'
+import { EndpointNetworkPolicy } from '@/components/EndpointNetworkPolicy'
+import type { NetworkPolicy } from '@/components/EndpointNetworkPolicy'
+import { EndpointSqlSettings } from '@/components/EndpointSqlSettings'
+import type { SqlDenylistOverrides } from '@/lib/sql-denylist'
+import type { SqlDialect } from '@/lib/sql-parser'
+import type { CostGuardMode } from '@/lib/sql-cost-guard'
+import type { ResultFormat } from '@/lib/result-format'
 
 interface Endpoint {
   id: string
+  label: string | null
   endpoint_url: string
+  previous_endpoint_url: string | null
+  previous_url_expires_at: string | null
   service_slug: string
   is_active: boolean
   rate_limit: number
+  max_concurrent_calls: number
   allowed_tools: string[] | null
+  sql_denylist: SqlDenylistOverrides | null
+  sql_dialect: SqlDialect | null
+  cost_guard_mode: CostGuardMode
+  cost_guard_max_rows: number | null
+  cost_guard_max_cost: number | null
+  cost_guard_supported: boolean
+  result_format: ResultFormat
+  oauth_required: boolean
+  api_key_required: boolean
+  network_policy: NetworkPolicy | null
   created_at: string
   last_accessed_at: string | null
   credential_name: string
@@ -18,6 +41,16 @@ export default function EndpointsPage() {
   const [endpoints, setEndpoints] = useState<Endpoint[]>([])
   const [loading, setLoading] = useState(true)
   const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [editingLimitsId, setEditingLimitsId] = useState<string | null>(null)
+  const [limitValues, setLimitValues] = useState({ rate_limit: '', max_concurrent_calls: '' })
+  const [savingLimits, setSavingLimits] = useState(false)
+  const [limitsError, setLimitsError] = useState<string | null>(null)
+  const [promptsOpenId, setPromptsOpenId] = useState<string | null>(null)
+  const [rotationOpenId, setRotationOpenId] = useState<string | null>(null)
+  const [networkOpenId, setNetworkOpenId] = useState<string | null>(null)
+  const [sqlOpenId, setSqlOpenId] = useState<string | null>(null)
+  // `${endpoint.id}:${setting}` while an auth toggle is saving
+  const [savingAuth, setSavingAuth] = useState<string | null>(null)
 
   useEffect(() => {
     loadEndpoints()
@@ -29,6 +62,11 @@ export default function EndpointsPage() {
       if (res.ok) {
         const { endpoints: data } = await res.json()
         setEndpoints(data || [])
+        // The connections page links here with #<endpoint id>
+        const hash = window.location.hash.slice(1)
+        if (hash) {
+          setTimeout(() => document.getElementById(hash)?.scrollIntoView({ behavior: 'smooth' }), 0)
+        }
       }
     } catch (err) {
       console.error('Error loading endpoints:', err)
@@ -44,6 +82,66 @@ export default function EndpointsPage() {
     setTimeout(() => setCopiedId(null), 2000)
   }
 
+  const startEditingLimits = (endpoint: Endpoint) => {
+    setEditingLimitsId(endpoint.id)
+    setLimitValues({
+      rate_limit: String(endpoint.rate_limit),
+      max_concurrent_calls: String(endpoint.max_concurrent_calls),
+    })
+    setLimitsError(null)
+  }
+
+  const saveLimits = async (endpointId: string) => {
+    setSavingLimits(true)
+    setLimitsError(null)
+    try {
+      const res = await fetch('/api/endpoints', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: endpointId,
+          rate_limit: Number(limitValues.rate_limit),
+          max_concurrent_calls: Number(limitValues.max_concurrent_calls),
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setLimitsError(data.error || 'Failed to save limits')
+        return
+      }
+      setEndpoints((prev) =>
+        prev.map((ep) => (ep.id === endpointId ? { ...ep, ...data.endpoint } : ep))
+      )
+      setEditingLimitsId(null)
+    } catch (err) {
+      console.error('Error saving limits:', err)
+      setLimitsError('Failed to save limits')
+    } finally {
+      setSavingLimits(false)
+    }
+  }
+
+  const toggleAuth = async (endpoint: Endpoint, setting: 'oauth_required' | 'api_key_required') => {
+    setSavingAuth(`${endpoint.id}:${setting}`)
+    try {
+      const res = await fetch('/api/endpoints', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: endpoint.id, [setting]: !endpoint[setting] }),
+      })
+      if (res.ok) {
+        const data = await res.json()
+        setEndpoints((prev) =>
+          prev.map((ep) => (ep.id === endpoint.id ? { ...ep, ...data.endpoint } : ep))
+        )
+      }
+    } catch (err) {
+      console.error('Error updating auth setting:', err)
+    } finally {
+      setSavingAuth(null)
+    }
+  }
+
   if (loading) {
     return (
       <div className="max-w-5xl">
@@ -60,7 +158,8 @@ export default function EndpointsPage() {
       <div className="mb-8">
         <h1 className="text-2xl font-bold text-white">Endpoints</h1>
         <p className="text-sm text-gray-400 mt-1">
-          Your MCP gateway endpoints
+          Your MCP gateway endpoints. Add endpoints, pause them and choose their tools on the{' '}
+          <a href="/dashboard/credentials" className="text-blue-400 hover:text-blue-300">Connections</a> page.
         </p>
       </div>
 
@@ -75,6 +174,7 @@ export default function EndpointsPage() {
             return (
               <div
                 key={endpoint.id}
+                id={endpoint.id}
                 className="bg-[#111] border border-[#1c1c1c] rounded-lg p-5"
               >
                 {/* Header */}
@@ -82,6 +182,7 @@ export default function EndpointsPage() {
                   <div className="flex items-center gap-3">
                     <h3 className="text-white font-medium">
                       {endpoint.credential_name}
+                      {endpoint.label && <span className="text-gray-400"> · {endpoint.label}</span>}
                     </h3>
                     <span
                       className={`px-2 py-0.5 text-[10px] rounded-full border ${
@@ -90,7 +191,7 @@ export default function EndpointsPage() {
                           : 'text-gray-400 bg-gray-500/10 border-gray-500/20'
                       }`}
                     >
-                      {endpoint.is_active ? 'Active' : 'Inactive'}
+                      {endpoint.is_active ? 'Active' : 'Paused'}
                     </span>
                     <span className="px-2 py-0.5 text-[10px] text-gray-500 bg-[#0a0a0a] border border-[#1c1c1c] rounded-full">
                       {endpoint.service_slug}
@@ -120,7 +221,17 @@ export default function EndpointsPage() {
                 <div className="grid grid-cols-3 gap-4 text-sm">
                   <div>
                     <p className="text-xs text-gray-500 mb-1">Rate Limit</p>
-                    <p className="text-white">{endpoint.rate_limit} req/min</p>
+                    <p className="text-white">
+                      {endpoint.rate_limit} req/min · {endpoint.max_concurrent_calls} concurrent
+                    </p>
+                    {editingLimitsId !== endpoint.id && (
+                      <button
+                        onClick={() => startEditingLimits(endpoint)}
+                        className="mt-1 text-xs text-blue-400 hover:text-blue-300 transition-all"
+                      >
+                        Edit limits
+                      </button>
+                    )}
                   </div>
                   <div>
                     <p className="text-xs text-gray-500 mb-1">Last Used</p>
@@ -134,6 +245,122 @@ export default function EndpointsPage() {
                   </div>
                 </div>
 
+                {/* Rate limit editor */}
+                {editingLimitsId === endpoint.id && (
+                  <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">
+                          Requests per minute
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={1000}
+                          value={limitValues.rate_limit}
+                          onChange={(e) =>
+                            setLimitValues((prev) => ({ ...prev, rate_limit: e.target.value }))
+                          }
+                          className="w-full px-4 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">
+                          Concurrent calls
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={50}
+                          value={limitValues.max_concurrent_calls}
+                          onChange={(e) =>
+                            setLimitValues((prev) => ({
+                              ...prev,
+                              max_concurrent_calls: e.target.value,
+                            }))
+                          }
+                          className="w-full px-4 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Calls over these limits are rejected with a retry-after hint and don&apos;t count toward your daily quota.
+                    </p>
+                    {limitsError && <p className="text-sm text-red-400 mt-2">{limitsError}</p>}
+                    <div className="flex gap-2 mt-3">
+                      <button
+                        onClick={() => saveLimits(endpoint.id)}
+                        disabled={savingLimits}
+                        className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {savingLimits ? 'Saving...' : 'Save'}
+                      </button>
+                      <button
+                        onClick={() => setEditingLimitsId(null)}
+                        disabled={savingLimits}
+                        className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-all"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {/* OAuth */}
+                <div className="mt-4 pt-4 border-t border-[#1c1c1c] flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                      Require OAuth
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {endpoint.oauth_required
+                        ? 'Clients must sign in with a Synra account in this organization. The URL alone no longer grants access.'
+                        : 'Anyone with the URL can use this endpoint.'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => toggleAuth(endpoint, 'oauth_required')}
+                    disabled={savingAuth === `${endpoint.id}:oauth_required`}
+                    className={`px-3 py-1.5 text-xs rounded transition-all flex-shrink-0 disabled:opacity-50 ${
+                      endpoint.oauth_required
+                        ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                        : 'bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white'
+                    }`}
+                  >
+                    {endpoint.oauth_required ? 'On' : 'Off'}
+                  </button>
+                </div>
+
+                {/* API key */}
+                <div className="mt-4 pt-4 border-t border-[#1c1c1c] flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                      Require API Key
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {endpoint.api_key_required ? (
+                        <>
+                          Requests must send <code className="font-mono">Authorization: Bearer syn_…</code> with a key scoped to this endpoint. Manage keys in{' '}
+                          <a href="/dashboard/settings" className="text-blue-400 hover:text-blue-300">Settings</a>.
+                        </>
+                      ) : (
+                        'No API key needed.'
+                      )}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => toggleAuth(endpoint, 'api_key_required')}
+                    disabled={savingAuth === `${endpoint.id}:api_key_required`}
+                    className={`px-3 py-1.5 text-xs rounded transition-all flex-shrink-0 disabled:opacity-50 ${
+                      endpoint.api_key_required
+                        ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                        : 'bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white'
+                    }`}
+                  >
+                    {endpoint.api_key_required ? 'On' : 'Off'}
+                  </button>
+                </div>
+
                 {/* Allowed tools */}
                 {endpoint.allowed_tools && endpoint.allowed_tools.length > 0 && (
                   <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
@@ -152,6 +379,112 @@ export default function EndpointsPage() {
                     </div>
                   </div>
                 )}
+
+                {/* Network policy */}
+                <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
+                  <button
+                    onClick={() =>
+                      setNetworkOpenId(networkOpenId === endpoint.id ? null : endpoint.id)
+                    }
+                    className="text-xs text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-all"
+                  >
+                    {networkOpenId === endpoint.id ? '▾' : '▸'} Network Policy
+                    {endpoint.network_policy && (
+                      <span className="ml-2 normal-case tracking-normal text-blue-400">restricted</span>
+                    )}
+                  </button>
+                  {networkOpenId === endpoint.id && (
+                    <div className="mt-3">
+                      <EndpointNetworkPolicy
+                        endpointId={endpoint.id}
+                        policy={endpoint.network_policy}
+                        onSaved={(policy) =>
+                          setEndpoints((prev) =>
+                            prev.map((ep) =>
+                              ep.id === endpoint.id ? { ...ep, network_policy: policy } : ep
+                            )
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* SQL settings */}
+                {endpoint.sql_dialect && (
+                  <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
+                    <button
+                      onClick={() => setSqlOpenId(sqlOpenId === endpoint.id ? null : endpoint.id)}
+                      className="text-xs text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-all"
+                    >
+                      {sqlOpenId === endpoint.id ? '▾' : '▸'} SQL Settings
+                      {endpoint.sql_denylist && (
+                        <span className="ml-2 normal-case tracking-normal text-blue-400">custom denylist</span>
+                      )}
+                      {endpoint.cost_guard_mode !== 'off' && (
+                        <span className="ml-2 normal-case tracking-normal text-blue-400">
+                          cost guard: {endpoint.cost_guard_mode}
+                        </span>
+                      )}
+                    </button>
+                    {sqlOpenId === endpoint.id && (
+                      <div className="mt-3">
+                        <EndpointSqlSettings
+                          endpointId={endpoint.id}
+                          dialect={endpoint.sql_dialect}
+                          costGuardSupported={endpoint.cost_guard_supported}
+                          settings={endpoint}
+                          onSaved={(settings) =>
+                            setEndpoints((prev) =>
+                              prev.map((ep) => (ep.id === endpoint.id ? { ...ep, ...settings } : ep))
+                            )
+                          }
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* URL rotation */}
+                <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
+                  <button
+                    onClick={() =>
+                      setRotationOpenId(rotationOpenId === endpoint.id ? null : endpoint.id)
+                    }
+                    className="text-xs text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-all"
+                  >
+                    {rotationOpenId === endpoint.id ? '▾' : '▸'} Rotate URL
+                  </button>
+                  {rotationOpenId === endpoint.id && (
+                    <div className="mt-3">
+                      <EndpointUrlRotation
+                        endpointId={endpoint.id}
+                        onRotated={(rotation) =>
+                          setEndpoints((prev) =>
+                            prev.map((ep) => (ep.id === rotation.id ? { ...ep, ...rotation } : ep))
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Prompt templates */}
+                <div className="mt-4 pt-4 border-t border-[#1c1c1c]">
+                  <button
+                    onClick={() =>
+                      setPromptsOpenId(promptsOpenId === endpoint.id ? null : endpoint.id)
+                    }
+                    className="text-xs text-gray-500 uppercase tracking-wider hover:text-gray-300 transition-all"
+                  >
+                    {promptsOpenId === endpoint.id ? '▾' : '▸'} Prompts
+                  </button>
+                  {promptsOpenId === endpoint.id && (
+                    <div className="mt-3">
+                      <EndpointPrompts endpointId={endpoint.id} />
+                    </div>
+                  )}
+                </div>
               </div>
             )
           })}
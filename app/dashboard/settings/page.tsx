@@ -3,6 +3,7 @@
 import { useDashboard } from '@/contexts/DashboardContext'
 import { useState, useEffect } from 'react'
 import { COMPANY_SIZES, INDUSTRIES } from '@/lib/onboarding-options'
+import { ApiKeys } from '@/components/ApiKeys'
 
 export default function SettingsPage() {
   const { organization, user, refresh } = useDashboard()
@@ -201,6 +202,17 @@ export default function SettingsPage() {
           )}
         </div>
       </div>
+
+      {/* API Keys */}
+      <div className="mt-8 mb-4">
+        <h2 className="text-lg font-semibold text-white">API Keys</h2>
+        <p className="text-sm text-gray-400 mt-1">
+          Bearer keys for server-side agents, for endpoints that require an API key
+        </p>
+      </div>
+      <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-6">
+        <ApiKeys />
+      </div>
     </div>
   )
 }
@@ -6,7 +6,7 @@ interface UsageLog {
   id: string
   tool_name: string
   service_slug: string
-  response_status: 'success' | 'error'
+  response_status: 'success' | 'error' | 'cancelled'
   duration_ms: number | null
   tokens_used: number | null
   error_message: string | null
@@ -22,6 +22,12 @@ interface UsageStats {
   total_tokens: number
 }
 
+interface TodayUsage {
+  requests: number
+  /** -1 = unlimited */
+  daily_limit: number | null
+}
+
 type SortKey =
   | 'tool_name'
   | 'credential_name'
@@ -63,6 +69,7 @@ function compareLogs(a: UsageLog, b: UsageLog, key: SortKey): number {
 export default function UsagePage() {
   const [logs, setLogs] = useState<UsageLog[]>([])
   const [stats, setStats] = useState<UsageStats | null>(null)
+  const [today, setToday] = useState<TodayUsage | null>(null)
   const [loading, setLoading] = useState(true)
   const [filter, setFilter] = useState<'all' | 'success' | 'error'>('all')
   const [sortKey, setSortKey] = useState<SortKey>('created_at')
@@ -78,9 +85,10 @@ export default function UsagePage() {
       const statusParam = filter !== 'all' ? `?status=${filter}` : ''
       const res = await fetch(`/api/usage${statusParam}`)
       if (res.ok) {
-        const { logs: data, stats: statsData } = await res.json()
+        const { logs: data, stats: statsData, today: todayData } = await res.json()
         setLogs(data || [])
         setStats(statsData)
+        setToday(todayData || null)
       }
     } catch (err) {
       console.error('Error loading usage:', err)
@@ -133,7 +141,23 @@ export default function UsagePage() {
 
       {/* Stats Cards */}
       {stats && (
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-8">
+          {today && (
+            <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-4">
+              <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
+                Today (UTC)
+              </p>
+              <p className="text-2xl font-bold text-white">
+                {today.requests.toLocaleString()}
+                {today.daily_limit !== null && today.daily_limit !== -1 && (
+                  <span className="text-sm font-normal text-gray-500">
+                    {' '}/ {today.daily_limit.toLocaleString()}
+                  </span>
+                )}
+              </p>
+            </div>
+          )}
+
           <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-4">
             <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">
               Total Requests
@@ -269,7 +293,9 @@ export default function UsagePage() {
                         className={`inline-flex items-center px-2 py-0.5 text-xs rounded-full ${
                           log.response_status === 'success'
                             ? 'text-green-400 bg-green-500/10 border border-green-500/20'
-                            : 'text-red-400 bg-red-500/10 border border-red-500/20'
+                            : log.response_status === 'cancelled'
+                              ? 'text-gray-400 bg-gray-500/10 border border-gray-500/20'
+                              : 'text-red-400 bg-red-500/10 border border-red-500/20'
                         }`}
                       >
                         {log.response_status}
@@ -3,6 +3,7 @@
 import { Suspense, useEffect, useState } from 'react'
 import { createBrowserClient } from '@/lib/supabase/client'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { sameOriginPath } from '@/lib/public-origin'
 
 export default function LoginPage() {
   return (
@@ -12,6 +13,11 @@ export default function LoginPage() {
   )
 }
 
+/** The ?redirect= target if it's a path on this site, else the dashboard. */
+function safeRedirect(value: string | null): string {
+  return sameOriginPath(value, window.location.origin)
+}
+
 function LoginShell() {
   return (
     <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-6">
@@ -59,7 +65,7 @@ function LoginPageInner() {
     setMessage(null)
     setGoogleLoading(true)
     try {
-      const redirectParam = searchParams.get('redirect') || '/dashboard'
+      const redirectParam = safeRedirect(searchParams.get('redirect'))
       const { error: oauthError } = await supabase.auth.signInWithOAuth({
         provider: 'google',
         options: {
@@ -139,7 +145,7 @@ function LoginPageInner() {
 
         if (signInError) throw signInError
 
-        router.push('/dashboard')
+        router.push(safeRedirect(searchParams.get('redirect')))
       }
     } catch (err: any) {
       setError(err.message || 'Authentication failed')
@@ -0,0 +1,154 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+
+interface AuthorizeDetails {
+  client_name: string | null
+  client_uri: string | null
+  redirect_host: string
+  organization_name: string | null
+  endpoint_url: string | null
+}
+
+export default function AuthorizePage() {
+  return (
+    <Suspense fallback={<AuthorizeShell />}>
+      <AuthorizePageInner />
+    </Suspense>
+  )
+}
+
+function AuthorizeShell({ children }: { children?: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-[#0a0a0a] flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white mb-2">Synra</h1>
+          <p className="text-sm text-gray-400">Managed MCP Gateway</p>
+        </div>
+        {children ?? (
+          <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-8 h-64 animate-pulse" />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function AuthorizePageInner() {
+  const searchParams = useSearchParams()
+  const [details, setDetails] = useState<AuthorizeDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/oauth/authorize?${searchParams.toString()}`)
+        const data = await res.json()
+        if (data.redirect_to) {
+          window.location.href = data.redirect_to
+          return
+        }
+        if (!res.ok) {
+          setError(data.error || 'Invalid authorization request')
+          return
+        }
+        setDetails(data)
+      } catch (err) {
+        console.error('Error loading authorization request:', err)
+        setError('Failed to load authorization request')
+      }
+    }
+    load()
+  }, [searchParams])
+
+  const decide = async (approve: boolean) => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/oauth/authorize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...Object.fromEntries(searchParams.entries()), approve }),
+      })
+      const data = await res.json()
+      if (!res.ok || !data.redirect_to) {
+        setError(data.error || 'Authorization failed')
+        setSubmitting(false)
+        return
+      }
+      window.location.href = data.redirect_to
+    } catch (err) {
+      console.error('Error submitting authorization:', err)
+      setError('Authorization failed')
+      setSubmitting(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <AuthorizeShell>
+        <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-8">
+          <h2 className="text-lg font-semibold text-white mb-2">Can&apos;t authorize this app</h2>
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      </AuthorizeShell>
+    )
+  }
+
+  if (!details) {
+    return <AuthorizeShell />
+  }
+
+  const clientName = details.client_name || 'An MCP client'
+
+  return (
+    <AuthorizeShell>
+      <div className="bg-[#111] border border-[#1c1c1c] rounded-lg p-8">
+        <h2 className="text-lg font-semibold text-white mb-2">
+          {clientName} wants to use your MCP {details.endpoint_url ? 'endpoint' : 'endpoints'}
+        </h2>
+        <p className="text-sm text-gray-400 mb-6">
+          It will be able to call tools on{' '}
+          {details.endpoint_url ? (
+            <code className="text-blue-400 font-mono break-all">{details.endpoint_url}</code>
+          ) : (
+            'every endpoint'
+          )}{' '}
+          {details.organization_name ? `in ${details.organization_name}` : 'in your organization'} as you.
+        </p>
+
+        <div className="space-y-2 text-sm mb-6">
+          {details.client_uri && (
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-500">Website</span>
+              <span className="text-gray-300 break-all text-right">{details.client_uri}</span>
+            </div>
+          )}
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-500">Redirects to</span>
+            <span className="text-gray-300 break-all text-right">{details.redirect_host}</span>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => decide(true)}
+            disabled={submitting}
+            className="flex-1 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Redirecting...' : 'Approve'}
+          </button>
+          <button
+            onClick={() => decide(false)}
+            disabled={submitting}
+            className="flex-1 px-4 py-2 text-sm text-gray-400 hover:text-white border border-[#1c1c1c] rounded-lg transition-all disabled:opacity-50"
+          >
+            Deny
+          </button>
+        </div>
+      </div>
+    </AuthorizeShell>
+  )
+}
@@ -0,0 +1,290 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface ApiKey {
+  id: string
+  name: string
+  key_prefix: string
+  endpoint_ids: string[]
+  last_used_at: string | null
+  expires_at: string | null
+  created_at: string
+  revoked_at: string | null
+}
+
+interface EndpointOption {
+  id: string
+  credential_name: string
+  service_slug: string
+  api_key_required: boolean
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none'
+
+/**
+ * Organization API keys: bearer secrets that open the endpoints they're
+ * scoped to when those endpoints require an API key. Only owners and
+ * admins can create or revoke — the API answers 403 for everyone else
+ * and the error is shown inline.
+ */
+export function ApiKeys() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [endpoints, setEndpoints] = useState<EndpointOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [draft, setDraft] = useState({ name: '', endpoint_ids: [] as string[], expires_at: '' })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // The new key's secret, shown once
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    loadApiKeys()
+  }, [])
+
+  const loadApiKeys = async () => {
+    try {
+      const [keysRes, endpointsRes] = await Promise.all([
+        fetch('/api/api-keys'),
+        fetch('/api/endpoints'),
+      ])
+      if (keysRes.ok) {
+        const { api_keys: data } = await keysRes.json()
+        setApiKeys(data || [])
+      }
+      if (endpointsRes.ok) {
+        const { endpoints: data } = await endpointsRes.json()
+        setEndpoints(data || [])
+      }
+    } catch (err) {
+      console.error('Error loading API keys:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleEndpoint = (id: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      endpoint_ids: prev.endpoint_ids.includes(id)
+        ? prev.endpoint_ids.filter((e) => e !== id)
+        : [...prev.endpoint_ids, id],
+    }))
+  }
+
+  const createKey = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          endpoint_ids: draft.endpoint_ids,
+          expires_at: draft.expires_at ? new Date(draft.expires_at).toISOString() : null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to create API key')
+        return
+      }
+      setApiKeys((prev) => [data.api_key, ...prev])
+      setNewKey(data.key)
+      setCopied(false)
+      setCreating(false)
+      setDraft({ name: '', endpoint_ids: [], expires_at: '' })
+    } catch (err) {
+      console.error('Error creating API key:', err)
+      setError('Failed to create API key')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const revokeKey = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Agents using it will lose access immediately.`)) return
+    setError(null)
+    try {
+      const res = await fetch(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to revoke API key')
+        return
+      }
+      setApiKeys((prev) =>
+        prev.map((k) => (k.id === apiKey.id ? { ...k, revoked_at: data.api_key.revoked_at } : k))
+      )
+    } catch (err) {
+      console.error('Error revoking API key:', err)
+      setError('Failed to revoke API key')
+    }
+  }
+
+  const copyKey = () => {
+    if (!newKey) return
+    navigator.clipboard.writeText(newKey)
+    setCopied(true)
+  }
+
+  const endpointName = (id: string) => {
+    const endpoint = endpoints.find((e) => e.id === id)
+    return endpoint ? endpoint.credential_name : 'Deleted endpoint'
+  }
+
+  if (loading) {
+    return <div className="text-gray-400 text-sm">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {newKey && (
+        <div className="bg-[#0a0a0a] border border-blue-500/30 rounded-md p-4">
+          <p className="text-sm text-white mb-2">
+            Copy this key now — it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="text-sm text-blue-400 font-mono flex-1 break-all">{newKey}</code>
+            <button
+              onClick={copyKey}
+              className="px-3 py-1.5 text-xs bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white rounded transition-all flex-shrink-0"
+            >
+              {copied ? '✓ Copied' : 'Copy'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Send it as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> to the endpoints it&apos;s scoped to.
+          </p>
+          <button
+            onClick={() => setNewKey(null)}
+            className="mt-2 text-xs text-gray-400 hover:text-white transition-all"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {apiKeys.length > 0 ? (
+        <div className="divide-y divide-[#1c1c1c]">
+          {apiKeys.map((apiKey) => {
+            const expired = apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now()
+            return (
+              <div key={apiKey.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm text-white">{apiKey.name}</p>
+                    <code className="text-xs text-gray-500 font-mono">{apiKey.key_prefix}…</code>
+                    {(apiKey.revoked_at || expired) && (
+                      <span className="px-2 py-0.5 text-[10px] text-gray-400 bg-gray-500/10 border border-gray-500/20 rounded-full">
+                        {apiKey.revoked_at ? 'Revoked' : 'Expired'}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {apiKey.endpoint_ids.map(endpointName).join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Last used{' '}
+                    {apiKey.last_used_at ? new Date(apiKey.last_used_at).toLocaleString() : 'never'}
+                    {apiKey.expires_at &&
+                      ` · Expires ${new Date(apiKey.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {!apiKey.revoked_at && (
+                  <button
+                    onClick={() => revokeKey(apiKey)}
+                    className="text-xs text-red-400 hover:text-red-300 transition-all flex-shrink-0"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        !creating && <p className="text-sm text-gray-500">No API keys yet.</p>
+      )}
+
+      {creating ? (
+        <div className="space-y-3 pt-2">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              className={inputClass}
+              placeholder="Reporting agent"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Endpoints</label>
+            <div className="space-y-1">
+              {endpoints.map((endpoint) => (
+                <label key={endpoint.id} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.endpoint_ids.includes(endpoint.id)}
+                    onChange={() => toggleEndpoint(endpoint.id)}
+                  />
+                  {endpoint.credential_name}
+                  <span className="text-xs text-gray-500">{endpoint.service_slug}</span>
+                  {!endpoint.api_key_required && (
+                    <span className="text-xs text-gray-600">(API key not required yet)</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Expires (optional)</label>
+            <input
+              type="date"
+              value={draft.expires_at}
+              onChange={(e) => setDraft((prev) => ({ ...prev, expires_at: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={createKey}
+              disabled={saving || !draft.name.trim() || draft.endpoint_ids.length === 0}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Creating...' : 'Create key'}
+            </button>
+            <button
+              onClick={() => {
+                setCreating(false)
+                setError(null)
+              }}
+              disabled={saving}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <button
+            onClick={() => {
+              setCreating(true)
+              setError(null)
+            }}
+            className="text-xs text-blue-400 hover:text-blue-300 transition-all"
+          >
+            + New API key
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
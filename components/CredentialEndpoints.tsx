@@ -0,0 +1,404 @@
+'use client'
+
+import { useState } from 'react'
+import { trackEvent } from '@/lib/mixpanel'
+
+export interface ManagedEndpoint {
+  id: string
+  credential_id: string
+  label: string | null
+  endpoint_url: string
+  service_slug: string
+  is_active: boolean
+  allowed_tools: string[] | null
+  allowed_tables: string[] | null
+  available_tools: string[]
+  created_at: string
+  last_accessed_at: string | null
+}
+
+interface Draft {
+  label: string
+  tools: string[]
+  tables: string[]
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none'
+
+const checkboxClass =
+  'w-3.5 h-3.5 rounded border-[#333] bg-[#0a0a0a] text-blue-500 focus:ring-blue-500 focus:ring-offset-0'
+
+function scopeSummary(endpoint: ManagedEndpoint, supportsTables: boolean): string {
+  const tools = endpoint.allowed_tools?.length ? endpoint.allowed_tools.join(', ') : 'All tools'
+  if (!supportsTables) return tools
+  const count = endpoint.allowed_tables?.length || 0
+  return `${tools} · ${count > 0 ? `${count} table${count === 1 ? '' : 's'}` : 'All tables'}`
+}
+
+/**
+ * The MCP endpoints of one connection. Each endpoint is its own URL with
+ * its own tool subset and table scope, so one connection can be shared
+ * at different levels. Changing endpoints is for owners and admins —
+ * the API answers 403 for everyone else and the error is shown inline. Rate limits, auth, network policy, URL rotation and
+ * prompts live on the endpoint settings page.
+ */
+export function CredentialEndpoints({
+  credentialId,
+  serviceSlug,
+  supportsTables,
+  endpoints,
+  onSaved,
+  onDeleted,
+}: {
+  credentialId: string
+  serviceSlug: string
+  supportsTables: boolean
+  endpoints: ManagedEndpoint[]
+  onSaved: (endpoint: ManagedEndpoint) => void
+  onDeleted: (endpointId: string) => void
+}) {
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  // Endpoint id being edited, 'new' while creating one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<Draft>({ label: '', tools: [], tables: [] })
+  // Tables the credential allows, loaded when the editor first opens
+  const [tables, setTables] = useState<string[] | null>(null)
+  const [loadingTables, setLoadingTables] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Same for every endpoint of the connection. Unknown once the last one
+  // is deleted; a new endpoint then gets every tool.
+  const availableTools = endpoints[0]?.available_tools || []
+
+  const loadTables = async () => {
+    if (tables || loadingTables) return
+    setLoadingTables(true)
+    try {
+      const [tablesRes, savedRes] = await Promise.all([
+        fetch('/api/fetch-tables', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ credentialId }),
+        }),
+        fetch(`/api/credentials/${credentialId}/tables`),
+      ])
+      const data = await tablesRes.json()
+      if (!tablesRes.ok) {
+        setError(data.error || 'Failed to load tables')
+        return
+      }
+      // Offer only what the connection itself allows
+      const { allowed_tables } = savedRes.ok ? await savedRes.json() : { allowed_tables: [] }
+      setTables(
+        allowed_tables?.length > 0
+          ? data.tables.filter((table: string) => allowed_tables.includes(table))
+          : data.tables
+      )
+    } catch (err) {
+      console.error('Error loading tables:', err)
+      setError('Failed to load tables')
+    } finally {
+      setLoadingTables(false)
+    }
+  }
+
+  const openEditor = (endpoint: ManagedEndpoint | null) => {
+    setEditingId(endpoint ? endpoint.id : 'new')
+    setError(null)
+    setDraft({
+      label: endpoint?.label || '',
+      tools: endpoint?.allowed_tools?.length ? endpoint.allowed_tools : availableTools,
+      tables: endpoint?.allowed_tables || [],
+    })
+    if (supportsTables) loadTables()
+  }
+
+  const toggle = (key: 'tools' | 'tables', value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      [key]: prev[key].includes(value)
+        ? prev[key].filter((item) => item !== value)
+        : [...prev[key], value],
+    }))
+  }
+
+  const saveDraft = async () => {
+    if (availableTools.length > 0 && draft.tools.length === 0) {
+      setError('Select at least one tool')
+      return
+    }
+
+    setBusyId(editingId)
+    setError(null)
+    try {
+      // Everything selected is stored as "no restriction"
+      const allTables = !!tables?.length && tables.every((table) => draft.tables.includes(table))
+      const scope = {
+        label: draft.label,
+        allowed_tools: draft.tools.length >= availableTools.length ? null : draft.tools,
+        allowed_tables: !supportsTables || draft.tables.length === 0 || allTables ? null : draft.tables,
+      }
+      const res = await fetch('/api/endpoints', {
+        method: editingId === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          editingId === 'new' ? { credential_id: credentialId, ...scope } : { id: editingId, ...scope }
+        ),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to save endpoint')
+        return
+      }
+      if (editingId === 'new') {
+        trackEvent('endpoint_created', { credential_id: credentialId, service_slug: serviceSlug })
+      }
+      onSaved(data.endpoint)
+      setEditingId(null)
+    } catch (err) {
+      console.error('Error saving endpoint:', err)
+      setError('Failed to save endpoint')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const setActive = async (endpoint: ManagedEndpoint, isActive: boolean) => {
+    setBusyId(endpoint.id)
+    setError(null)
+    try {
+      const res = await fetch('/api/endpoints', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: endpoint.id, is_active: isActive }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to update endpoint')
+        return
+      }
+      onSaved(data.endpoint)
+    } catch (err) {
+      console.error('Error updating endpoint:', err)
+      setError('Failed to update endpoint')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteEndpoint = async (endpoint: ManagedEndpoint) => {
+    if (!confirm('Delete this endpoint? Clients using its URL will stop working. This cannot be undone.')) {
+      return
+    }
+    setBusyId(endpoint.id)
+    setError(null)
+    try {
+      const res = await fetch(`/api/endpoints/${endpoint.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to delete endpoint')
+        return
+      }
+      onDeleted(endpoint.id)
+    } catch (err) {
+      console.error('Error deleting endpoint:', err)
+      setError('Failed to delete endpoint')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const editor = (
+    <div className="mt-3 pt-3 border-t border-[#1c1c1c] space-y-3">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Label</label>
+        <input
+          type="text"
+          value={draft.label}
+          maxLength={100}
+          onChange={(e) => setDraft((prev) => ({ ...prev, label: e.target.value }))}
+          placeholder="e.g. Contractor – read only"
+          className={inputClass}
+        />
+      </div>
+
+      {availableTools.length > 0 && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Tools</label>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {availableTools.map((tool) => (
+              <label key={tool} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.tools.includes(tool)}
+                  onChange={() => toggle('tools', tool)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-300 font-mono">{tool}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {supportsTables && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Tables</label>
+          {loadingTables ? (
+            <p className="text-xs text-gray-500">Loading tables...</p>
+          ) : tables && tables.length > 0 ? (
+            <>
+              <div className="max-h-48 overflow-y-auto border border-[#1c1c1c] rounded-md bg-[#111] p-2 space-y-1">
+                {tables.map((table) => (
+                  <label
+                    key={table}
+                    className="flex items-center gap-2 px-2 py-1 rounded hover:bg-[#1c1c1c] cursor-pointer transition-colors"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={draft.tables.includes(table)}
+                      onChange={() => toggle('tables', table)}
+                      className={checkboxClass}
+                    />
+                    <span className="text-sm text-gray-300 font-mono">{table}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-[11px] text-gray-500 mt-1">
+                {draft.tables.length === 0
+                  ? 'None selected — every table the connection allows.'
+                  : `Only ${draft.tables.length} table${draft.tables.length === 1 ? '' : 's'}.`}
+              </p>
+            </>
+          ) : (
+            tables && <p className="text-xs text-gray-500">No tables found in this database.</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={saveDraft}
+          disabled={busyId === editingId}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busyId === editingId ? 'Saving...' : editingId === 'new' ? 'Create Endpoint' : 'Save'}
+        </button>
+        <button
+          onClick={() => setEditingId(null)}
+          className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-xs text-gray-500 uppercase tracking-wider">
+          MCP Endpoints
+        </label>
+        {editingId !== 'new' && (
+          <button
+            onClick={() => openEditor(null)}
+            className="text-xs text-blue-400 hover:text-blue-300 transition-all"
+          >
+            + Add endpoint
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {endpoints.map((endpoint, index) => {
+          const fullUrl = `${typeof window !== 'undefined' ? window.location.origin : ''}${endpoint.endpoint_url}`
+          const busy = busyId === endpoint.id
+
+          return (
+            <div key={endpoint.id} className="bg-[#0a0a0a] border border-[#1c1c1c] rounded-md p-3">
+              <div className="flex items-center justify-between gap-3 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm text-white truncate">
+                    {endpoint.label || (index === 0 ? 'Default endpoint' : `Endpoint ${index + 1}`)}
+                  </span>
+                  <span className={`px-2 py-0.5 text-[10px] rounded-full border flex-shrink-0 ${
+                    endpoint.is_active
+                      ? 'text-green-400 bg-green-500/10 border-green-500/20'
+                      : 'text-gray-400 bg-gray-500/10 border-gray-500/20'
+                  }`}>
+                    {endpoint.is_active ? 'Active' : 'Paused'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0 text-xs">
+                  <button
+                    onClick={() => setActive(endpoint, !endpoint.is_active)}
+                    disabled={busy}
+                    className="text-gray-400 hover:text-white transition-all disabled:opacity-50"
+                  >
+                    {endpoint.is_active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => (editingId === endpoint.id ? setEditingId(null) : openEditor(endpoint))}
+                    className="text-gray-400 hover:text-white transition-all"
+                  >
+                    Edit
+                  </button>
+                  <a
+                    href={`/dashboard/endpoints#${endpoint.id}`}
+                    className="text-gray-400 hover:text-white transition-all"
+                  >
+                    Settings
+                  </a>
+                  <button
+                    onClick={() => deleteEndpoint(endpoint)}
+                    disabled={busy}
+                    className="text-red-400 hover:text-red-300 transition-all disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <code className="text-sm text-blue-400 font-mono flex-1 truncate">{fullUrl}</code>
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(fullUrl)
+                    setCopiedId(endpoint.id)
+                    setTimeout(() => setCopiedId(null), 2000)
+                    trackEvent('gateway_url_copied', {
+                      credential_id: credentialId,
+                      service_slug: serviceSlug,
+                    })
+                  }}
+                  className="px-3 py-1 text-xs bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white rounded transition-all flex-shrink-0"
+                >
+                  {copiedId === endpoint.id ? 'Copied!' : 'Copy'}
+                </button>
+              </div>
+              <p className="text-[11px] text-gray-500 mt-1 truncate">{scopeSummary(endpoint, supportsTables)}</p>
+
+              {editingId === endpoint.id && editor}
+            </div>
+          )
+        })}
+
+        {endpoints.length === 0 && editingId !== 'new' && (
+          <p className="text-xs text-gray-500">No endpoints. Add one to connect an MCP client.</p>
+        )}
+
+        {editingId === 'new' && (
+          <div className="bg-[#0a0a0a] border border-[#1c1c1c] rounded-md p-3">
+            <p className="text-sm text-white">New endpoint</p>
+            {editor}
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  )
+}
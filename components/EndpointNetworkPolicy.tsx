@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+
+export interface NetworkPolicy {
+  allowed_cidrs?: string[]
+  allowed_origins?: string[]
+  allowed_user_agents?: string[]
+}
+
+const FIELDS: { key: keyof NetworkPolicy; label: string; hint: string; placeholder: string }[] = [
+  {
+    key: 'allowed_cidrs',
+    label: 'Allowed IP ranges',
+    hint: 'IPv4/IPv6 addresses or CIDR ranges.',
+    placeholder: '203.0.113.0/24\n2001:db8::/32',
+  },
+  {
+    key: 'allowed_origins',
+    label: 'Allowed browser origins',
+    hint: 'Only affects browser clients, which send an Origin header.',
+    placeholder: 'https://app.example.com',
+  },
+  {
+    key: 'allowed_user_agents',
+    label: 'Allowed user-agents',
+    hint: 'Matched as case-insensitive substrings of the User-Agent header.',
+    placeholder: 'my-agent/',
+  },
+]
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm font-mono focus:border-blue-500 focus:outline-none'
+
+/**
+ * Editor for an endpoint's IP, origin and user-agent allowlists, one
+ * entry per line. Empty lists allow everything.
+ */
+export function EndpointNetworkPolicy({
+  endpointId,
+  policy,
+  onSaved,
+}: {
+  endpointId: string
+  policy: NetworkPolicy | null
+  onSaved: (policy: NetworkPolicy | null) => void
+}) {
+  const [draft, setDraft] = useState<Record<keyof NetworkPolicy, string>>({
+    allowed_cidrs: (policy?.allowed_cidrs || []).join('\n'),
+    allowed_origins: (policy?.allowed_origins || []).join('\n'),
+    allowed_user_agents: (policy?.allowed_user_agents || []).join('\n'),
+  })
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const savePolicy = async () => {
+    setSaving(true)
+    setSaved(false)
+    setError(null)
+    try {
+      const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean)
+      const res = await fetch('/api/endpoints', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: endpointId,
+          network_policy: {
+            allowed_cidrs: lines(draft.allowed_cidrs),
+            allowed_origins: lines(draft.allowed_origins),
+            allowed_user_agents: lines(draft.allowed_user_agents),
+          },
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to save network policy')
+        return
+      }
+      onSaved(data.endpoint.network_policy)
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving network policy:', err)
+      setError('Failed to save network policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {FIELDS.map((field) => (
+        <div key={field.key}>
+          <label className="block text-xs text-gray-500 mb-1">{field.label}</label>
+          <textarea
+            rows={3}
+            value={draft[field.key]}
+            onChange={(e) => {
+              setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))
+              setSaved(false)
+            }}
+            placeholder={field.placeholder}
+            className={inputClass}
+          />
+          <p className="text-[11px] text-gray-500 mt-1">{field.hint} One per line; leave empty to allow all.</p>
+        </div>
+      ))}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={savePolicy}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {saved && <span className="text-sm text-green-400">Saved!</span>}
+      </div>
+    </div>
+  )
+}
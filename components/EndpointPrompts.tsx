@@ -0,0 +1,333 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+type ArgumentType = 'string' | 'number' | 'date' | 'email'
+
+interface PromptArgument {
+  name: string
+  description?: string
+  type: ArgumentType
+  required: boolean
+}
+
+interface Prompt {
+  id: string
+  name: string
+  title: string | null
+  description: string | null
+  template: string
+  arguments: PromptArgument[]
+}
+
+interface PromptDraft {
+  name: string
+  title: string
+  description: string
+  template: string
+  arguments: PromptArgument[]
+}
+
+const EMPTY_DRAFT: PromptDraft = {
+  name: '',
+  title: '',
+  description: '',
+  template: '',
+  arguments: [],
+}
+
+const ARGUMENT_TYPES: ArgumentType[] = ['string', 'number', 'date', 'email']
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none'
+
+/**
+ * Prompt templates served to MCP clients through prompts/list and
+ * prompts/get for one endpoint. Only owners and admins can save — the
+ * API answers 403 for everyone else and the error is shown inline.
+ */
+export function EndpointPrompts({ endpointId }: { endpointId: string }) {
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [loading, setLoading] = useState(true)
+  // null = not editing, 'new' = adding, otherwise the prompt id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState<PromptDraft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadPrompts()
+  }, [endpointId])
+
+  const loadPrompts = async () => {
+    try {
+      const res = await fetch(`/api/endpoints/${endpointId}/prompts`)
+      if (res.ok) {
+        const { prompts: data } = await res.json()
+        setPrompts(data || [])
+      }
+    } catch (err) {
+      console.error('Error loading prompts:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startEditing = (prompt: Prompt | null) => {
+    setEditing(prompt ? prompt.id : 'new')
+    setDraft(
+      prompt
+        ? {
+            name: prompt.name,
+            title: prompt.title || '',
+            description: prompt.description || '',
+            template: prompt.template,
+            arguments: prompt.arguments,
+          }
+        : EMPTY_DRAFT
+    )
+    setError(null)
+  }
+
+  const updateArgument = (index: number, changes: Partial<PromptArgument>) => {
+    setDraft((prev) => ({
+      ...prev,
+      arguments: prev.arguments.map((arg, i) => (i === index ? { ...arg, ...changes } : arg)),
+    }))
+  }
+
+  const savePrompt = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const isNew = editing === 'new'
+      const res = await fetch(
+        isNew
+          ? `/api/endpoints/${endpointId}/prompts`
+          : `/api/endpoints/${endpointId}/prompts/${editing}`,
+        {
+          method: isNew ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft),
+        }
+      )
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to save prompt')
+        return
+      }
+      setPrompts((prev) =>
+        (isNew ? [...prev, data.prompt] : prev.map((p) => (p.id === data.prompt.id ? data.prompt : p)))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      )
+      setEditing(null)
+    } catch (err) {
+      console.error('Error saving prompt:', err)
+      setError('Failed to save prompt')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deletePrompt = async (prompt: Prompt) => {
+    if (!confirm(`Delete the prompt "${prompt.title || prompt.name}"?`)) return
+    setError(null)
+    try {
+      const res = await fetch(`/api/endpoints/${endpointId}/prompts/${prompt.id}`, {
+        method: 'DELETE',
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        setError(data.error || 'Failed to delete prompt')
+        return
+      }
+      setPrompts((prev) => prev.filter((p) => p.id !== prompt.id))
+    } catch (err) {
+      console.error('Error deleting prompt:', err)
+      setError('Failed to delete prompt')
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-400 text-sm">Loading prompts...</div>
+  }
+
+  return (
+    <div>
+      {prompts.length > 0 ? (
+        <div className="space-y-2 mb-3">
+          {prompts.map((prompt) => (
+            <div
+              key={prompt.id}
+              className="flex items-center justify-between bg-[#0a0a0a] border border-[#1c1c1c] rounded-md px-3 py-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{prompt.title || prompt.name}</p>
+                <p className="text-xs text-gray-500 font-mono truncate">
+                  {prompt.name}
+                  {prompt.arguments.length > 0 &&
+                    ` (${prompt.arguments.map((a) => a.name).join(', ')})`}
+                </p>
+              </div>
+              <div className="flex gap-3 flex-shrink-0 ml-4">
+                <button
+                  onClick={() => startEditing(prompt)}
+                  className="text-xs text-blue-400 hover:text-blue-300 transition-all"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => deletePrompt(prompt)}
+                  className="text-xs text-red-400 hover:text-red-300 transition-all"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        editing === null && (
+          <p className="text-xs text-gray-500 mb-3">
+            No prompts yet. Prompts show up in your team&apos;s MCP clients as ready-made starting points.
+          </p>
+        )
+      )}
+
+      {editing === null ? (
+        <button
+          onClick={() => startEditing(null)}
+          className="text-xs text-blue-400 hover:text-blue-300 transition-all"
+        >
+          + New prompt
+        </button>
+      ) : (
+        <div className="space-y-3 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="weekly-revenue-review"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Title</label>
+              <input
+                value={draft.title}
+                onChange={(e) => setDraft((prev) => ({ ...prev, title: e.target.value }))}
+                placeholder="Weekly revenue review"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Description</label>
+            <input
+              value={draft.description}
+              onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">
+              Template — use {'{{argument}}'} to insert an argument
+            </label>
+            <textarea
+              value={draft.template}
+              onChange={(e) => setDraft((prev) => ({ ...prev, template: e.target.value }))}
+              rows={6}
+              placeholder="Summarize revenue for the week starting {{week_start}}..."
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Arguments</label>
+            <div className="space-y-2">
+              {draft.arguments.map((arg, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={arg.name}
+                    onChange={(e) => updateArgument(index, { name: e.target.value })}
+                    placeholder="name"
+                    className={`${inputClass} font-mono w-40`}
+                  />
+                  <select
+                    value={arg.type}
+                    onChange={(e) => updateArgument(index, { type: e.target.value as ArgumentType })}
+                    className={`${inputClass} w-28`}
+                  >
+                    {ARGUMENT_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={arg.description || ''}
+                    onChange={(e) => updateArgument(index, { description: e.target.value })}
+                    placeholder="description"
+                    className={inputClass}
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-400 flex-shrink-0">
+                    <input
+                      type="checkbox"
+                      checked={arg.required}
+                      onChange={(e) => updateArgument(index, { required: e.target.checked })}
+                    />
+                    Required
+                  </label>
+                  <button
+                    onClick={() =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        arguments: prev.arguments.filter((_, i) => i !== index),
+                      }))
+                    }
+                    className="text-xs text-gray-500 hover:text-red-400 transition-all flex-shrink-0"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  arguments: [...prev.arguments, { name: '', type: 'string', required: true }],
+                }))
+              }
+              className="mt-2 text-xs text-blue-400 hover:text-blue-300 transition-all"
+            >
+              + Add argument
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={savePrompt}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save prompt'}
+            </button>
+            <button
+              onClick={() => setEditing(null)}
+              disabled={saving}
+              className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {editing === null && error && <p className="text-sm text-red-400 mt-2">{error}</p>}
+    </div>
+  )
+}
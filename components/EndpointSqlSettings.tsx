@@ -0,0 +1,224 @@
+'use client'
+
+import { useState } from 'react'
+import { defaultSqlDenylist } from '@/lib/sql-denylist'
+import type { SqlDenylistOverrides } from '@/lib/sql-denylist'
+import type { SqlDialect } from '@/lib/sql-parser'
+import { COST_GUARD_MODES } from '@/lib/sql-cost-guard'
+import type { CostGuardMode } from '@/lib/sql-cost-guard'
+import { RESULT_FORMATS } from '@/lib/result-format'
+import type { ResultFormat } from '@/lib/result-format'
+
+export interface EndpointSqlSettingsValues {
+  sql_denylist: SqlDenylistOverrides | null
+  cost_guard_mode: CostGuardMode
+  cost_guard_max_rows: number | null
+  cost_guard_max_cost: number | null
+  result_format: ResultFormat
+}
+
+const RESULT_FORMAT_LABELS: Record<ResultFormat, string> = {
+  json: 'JSON',
+  columnar: 'Columnar JSON',
+  csv: 'CSV',
+  markdown: 'Markdown table',
+}
+
+const COST_GUARD_LABELS: Record<CostGuardMode, string> = {
+  off: 'Off',
+  warn: 'Warn — run the query, attach a warning',
+  reject: 'Reject — refuse the query',
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm font-mono focus:border-blue-500 focus:outline-none'
+
+/**
+ * Editor for an endpoint's SQL settings: the default result format of
+ * query_table and execute_sql, extra functions and clauses to deny,
+ * defaults to allow again (one per line) and, where the service
+ * supports it, the EXPLAIN cost guard.
+ */
+export function EndpointSqlSettings({
+  endpointId,
+  dialect,
+  costGuardSupported,
+  settings,
+  onSaved,
+}: {
+  endpointId: string
+  dialect: SqlDialect
+  costGuardSupported: boolean
+  settings: EndpointSqlSettingsValues
+  onSaved: (settings: EndpointSqlSettingsValues) => void
+}) {
+  const defaults = defaultSqlDenylist(dialect)
+  const [draft, setDraft] = useState({
+    result_format: settings.result_format,
+    deny: (settings.sql_denylist?.deny || []).join('\n'),
+    allow: (settings.sql_denylist?.allow || []).join('\n'),
+    cost_guard_mode: settings.cost_guard_mode,
+    cost_guard_max_rows: settings.cost_guard_max_rows == null ? '' : String(settings.cost_guard_max_rows),
+    cost_guard_max_cost: settings.cost_guard_max_cost == null ? '' : String(settings.cost_guard_max_cost),
+  })
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<typeof draft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }))
+    setSaved(false)
+  }
+
+  const saveSettings = async () => {
+    setSaving(true)
+    setSaved(false)
+    setError(null)
+    try {
+      const lines = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean)
+      // Blank = no limit of that kind
+      const limit = (text: string) => (text.trim() ? Number(text) : null)
+      const costGuard = costGuardSupported
+        ? {
+            cost_guard_mode: draft.cost_guard_mode,
+            cost_guard_max_rows: limit(draft.cost_guard_max_rows),
+            cost_guard_max_cost: limit(draft.cost_guard_max_cost),
+          }
+        : {}
+      const res = await fetch('/api/endpoints', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: endpointId,
+          result_format: draft.result_format,
+          sql_denylist: { deny: lines(draft.deny), allow: lines(draft.allow) },
+          ...costGuard,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to save SQL settings')
+        return
+      }
+      onSaved({
+        result_format: data.endpoint.result_format,
+        sql_denylist: data.endpoint.sql_denylist,
+        cost_guard_mode: data.endpoint.cost_guard_mode,
+        cost_guard_max_rows: data.endpoint.cost_guard_max_rows,
+        cost_guard_max_cost: data.endpoint.cost_guard_max_cost,
+      })
+      setSaved(true)
+    } catch (err) {
+      console.error('Error saving SQL settings:', err)
+      setError('Failed to save SQL settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Result format</label>
+        <select
+          value={draft.result_format}
+          onChange={(e) => update({ result_format: e.target.value as ResultFormat })}
+          className={inputClass}
+        >
+          {RESULT_FORMATS.map((format) => (
+            <option key={format} value={format}>
+              {RESULT_FORMAT_LABELS[format]}
+            </option>
+          ))}
+        </select>
+        <p className="text-[11px] text-gray-500 mt-1">
+          Used when a query_table or execute_sql call doesn&apos;t pass a format. Columnar, CSV and markdown take far fewer tokens than JSON for many rows.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Also deny</label>
+          <textarea
+            rows={3}
+            value={draft.deny}
+            onChange={(e) => update({ deny: e.target.value })}
+            placeholder="function_name"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Allow again</label>
+          <textarea
+            rows={3}
+            value={draft.allow}
+            onChange={(e) => update({ allow: e.target.value })}
+            placeholder={defaults[0]}
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className="text-[11px] text-gray-500">
+        Function or clause names, one per line. Denied by default:{' '}
+        <span className="font-mono">{defaults.join(', ')}</span>
+      </p>
+      {costGuardSupported && (
+        <div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Cost guard</label>
+              <select
+                value={draft.cost_guard_mode}
+                onChange={(e) => update({ cost_guard_mode: e.target.value as CostGuardMode })}
+                className={inputClass}
+              >
+                {COST_GUARD_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {COST_GUARD_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Max estimated rows</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={draft.cost_guard_max_rows}
+                onChange={(e) => update({ cost_guard_max_rows: e.target.value })}
+                placeholder="No limit"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Max planner cost</label>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={draft.cost_guard_max_cost}
+                onChange={(e) => update({ cost_guard_max_cost: e.target.value })}
+                placeholder="No limit"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-[11px] text-gray-500 mt-1">
+            Runs EXPLAIN before each execute_sql query and compares the planner&apos;s estimate with these limits.
+          </p>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {saved && <span className="text-sm text-green-400">Saved!</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+interface Rotation {
+  id: string
+  endpoint_url: string
+  previous_endpoint_url: string | null
+  previous_url_expires_at: string | null
+  url_rotated_at: string | null
+}
+
+interface OldUrlClient {
+  user_agent: string | null
+  client_name: string | null
+  client_version: string | null
+  calls: number
+  last_seen_at: string
+}
+
+const GRACE_OPTIONS = [
+  { hours: 0, label: 'Revoke immediately' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+]
+
+/**
+ * Rotate an endpoint's URL with a grace period for the old one, and list
+ * the clients still calling the old URL. Only owners and admins can
+ * rotate or revoke — the API answers 403 for everyone else and the
+ * error is shown inline.
+ */
+export function EndpointUrlRotation({
+  endpointId,
+  onRotated,
+}: {
+  endpointId: string
+  onRotated: (rotation: Rotation) => void
+}) {
+  const [rotation, setRotation] = useState<Rotation | null>(null)
+  const [clients, setClients] = useState<OldUrlClient[]>([])
+  const [loading, setLoading] = useState(true)
+  const [graceHours, setGraceHours] = useState(24)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRotation()
+  }, [endpointId])
+
+  const loadRotation = async () => {
+    try {
+      const res = await fetch(`/api/endpoints/${endpointId}/rotation`)
+      if (res.ok) {
+        const data = await res.json()
+        setRotation(data.rotation)
+        setClients(data.old_url_clients || [])
+      }
+    } catch (err) {
+      console.error('Error loading URL rotation:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const update = async (method: 'POST' | 'DELETE') => {
+    if (
+      method === 'POST' &&
+      !confirm(
+        graceHours > 0
+          ? 'Issue a new URL? Clients must be updated before the old URL expires.'
+          : 'Issue a new URL and revoke the current one now? Connected clients will stop working.'
+      )
+    ) {
+      return
+    }
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/endpoints/${endpointId}/rotation`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'POST' ? JSON.stringify({ grace_hours: graceHours }) : undefined,
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to update the endpoint URL')
+        return
+      }
+      setRotation(data.rotation)
+      if (method === 'POST') setClients([])
+      onRotated(data.rotation)
+    } catch (err) {
+      console.error('Error rotating endpoint URL:', err)
+      setError('Failed to update the endpoint URL')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-400 text-sm">Loading...</div>
+  }
+
+  const graceActive =
+    !!rotation?.previous_endpoint_url &&
+    !!rotation.previous_url_expires_at &&
+    new Date(rotation.previous_url_expires_at).getTime() > Date.now()
+
+  return (
+    <div className="space-y-3">
+      {graceActive && rotation && (
+        <div className="bg-[#0a0a0a] border border-[#1c1c1c] rounded-md p-3 space-y-2">
+          <p className="text-xs text-gray-400">
+            The old URL{' '}
+            <code className="text-gray-300 font-mono break-all">{rotation.previous_endpoint_url}</code>{' '}
+            works until {new Date(rotation.previous_url_expires_at!).toLocaleString()}.
+          </p>
+          {clients.length > 0 ? (
+            <div>
+              <p className="text-xs text-gray-500 mb-1">Clients still using it:</p>
+              <ul className="space-y-1">
+                {clients.map((client, i) => (
+                  <li key={i} className="text-xs text-gray-300">
+                    {client.client_name
+                      ? `${client.client_name}${client.client_version ? ` ${client.client_version}` : ''}`
+                      : 'Unknown client'}
+                    {client.user_agent && (
+                      <span className="text-gray-500 font-mono"> · {client.user_agent}</span>
+                    )}
+                    <span className="text-gray-500">
+                      {' '}· {client.calls} call{client.calls === 1 ? '' : 's'}, last{' '}
+                      {new Date(client.last_seen_at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">No tool calls on the old URL since the rotation.</p>
+          )}
+          <button
+            onClick={() => update('DELETE')}
+            disabled={saving}
+            className="text-xs text-red-400 hover:text-red-300 transition-all disabled:opacity-50"
+          >
+            Revoke old URL now
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={graceHours}
+          onChange={(e) => setGraceHours(Number(e.target.value))}
+          className="px-3 py-2 bg-[#0a0a0a] border border-[#1c1c1c] rounded-md text-white text-sm focus:border-blue-500 focus:outline-none appearance-none"
+        >
+          {GRACE_OPTIONS.map((option) => (
+            <option key={option.hours} value={option.hours}>
+              {option.hours === 0 ? option.label : `Keep old URL for ${option.label}`}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => update('POST')}
+          disabled={saving}
+          className="px-4 py-2 bg-[#1c1c1c] hover:bg-[#252525] text-gray-300 hover:text-white text-sm rounded-lg transition-all disabled:opacity-50"
+        >
+          {saving ? 'Rotating...' : 'Rotate URL'}
+        </button>
+      </div>
+      {graceActive && (
+        <p className="text-xs text-gray-500">Rotating again revokes the current old URL at once.</p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  )
+}
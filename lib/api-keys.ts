@@ -0,0 +1,146 @@
+/**
+ * API keys — static bearer secrets for MCP endpoints
+ *
+ * For server-side agents that can't run an OAuth flow and shouldn't
+ * carry a secret in a URL. An endpoint with api_key_required needs
+ * `Authorization: Bearer syn_...` on every request, naming a key that
+ * is unrevoked, unexpired and scoped to that endpoint. The URL is still
+ * required as well.
+ *
+ * Keys are shown once at creation and stored as SHA-256 hashes.
+ * Validated keys are cached in memory for KEY_CACHE_TTL_MS; revoking
+ * from the dashboard evicts the entry, so it takes effect immediately.
+ * last_used_at is written when the cache entry is refreshed, so it's
+ * accurate to about that window.
+ */
+
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+
+export const API_KEY_PREFIX = 'syn_'
+
+/** Characters of the key kept in key_prefix for display. */
+const DISPLAY_PREFIX_LENGTH = 12
+
+const KEY_CACHE_TTL_MS = 60_000
+
+const MAX_NAME_LENGTH = 100
+const MAX_ENDPOINTS_PER_KEY = 100
+
+export interface ApiKeyInput {
+  name: string
+  endpoint_ids: string[]
+  expires_at: string | null
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+/** A new key, its hash and its display prefix. */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  return { key, keyHash: hashKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+/** Whether a bearer token looks like an API key rather than an OAuth token. */
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX)
+}
+
+/** Validate a create-key request body from the dashboard. */
+export function parseApiKeyInput(
+  input: any
+): { ok: true; key: ApiKeyInput } | { ok: false; error: string } {
+  const name = typeof input?.name === 'string' ? input.name.trim() : ''
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `name must be 1-${MAX_NAME_LENGTH} characters` }
+  }
+
+  const endpointIds = input?.endpoint_ids
+  if (
+    !Array.isArray(endpointIds) ||
+    endpointIds.length === 0 ||
+    endpointIds.some((id) => typeof id !== 'string')
+  ) {
+    return { ok: false, error: 'endpoint_ids must list at least one endpoint' }
+  }
+  if (endpointIds.length > MAX_ENDPOINTS_PER_KEY) {
+    return { ok: false, error: `A key can open at most ${MAX_ENDPOINTS_PER_KEY} endpoints` }
+  }
+
+  let expiresAt: string | null = null
+  if (input?.expires_at != null && input.expires_at !== '') {
+    const time = typeof input.expires_at === 'string' ? Date.parse(input.expires_at) : NaN
+    if (Number.isNaN(time)) {
+      return { ok: false, error: 'expires_at must be an ISO 8601 date' }
+    }
+    if (time <= Date.now()) {
+      return { ok: false, error: 'expires_at must be in the future' }
+    }
+    expiresAt = new Date(time).toISOString()
+  }
+
+  return { ok: true, key: { name, endpoint_ids: [...new Set<string>(endpointIds)], expires_at: expiresAt } }
+}
+
+// ─── Validation (MCP route) ─────────────────────────────────────────
+
+interface CachedKey {
+  organizationId: string
+  endpointIds: string[]
+  expiresAt: number | null
+  cachedUntil: number
+}
+
+const keyCache = new Map<string, CachedKey>()
+
+/** Drop a key from the validation cache, e.g. after it was revoked. */
+export function evictApiKey(keyHash: string) {
+  keyCache.delete(keyHash)
+}
+
+/** Check an API key for `endpoint`. */
+export async function verifyApiKey(
+  key: string,
+  endpoint: { id: string; organization_id: string }
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const hash = hashKey(key)
+  const now = Date.now()
+  let cached = keyCache.get(hash)
+
+  if (!cached || cached.cachedUntil <= now) {
+    keyCache.delete(hash)
+    const admin = createAdminClient()
+    const { data } = await admin
+      .from('api_keys')
+      .select('id, organization_id, endpoint_ids, expires_at')
+      .eq('key_hash', hash)
+      .is('revoked_at', null)
+      .maybeSingle()
+    if (!data) return { ok: false, error: 'Invalid API key' }
+
+    cached = {
+      organizationId: data.organization_id,
+      endpointIds: Array.isArray(data.endpoint_ids) ? data.endpoint_ids : [],
+      expiresAt: data.expires_at ? new Date(data.expires_at).getTime() : null,
+      cachedUntil: now + KEY_CACHE_TTL_MS,
+    }
+    keyCache.set(hash, cached)
+
+    admin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(() => {}) // fire and forget
+  }
+
+  if (cached.expiresAt !== null && cached.expiresAt <= now) {
+    return { ok: false, error: 'API key expired' }
+  }
+  if (cached.organizationId !== endpoint.organization_id || !cached.endpointIds.includes(endpoint.id)) {
+    return { ok: false, error: 'API key is not scoped to this endpoint' }
+  }
+
+  return { ok: true }
+}
@@ -44,6 +44,7 @@ The old JSON-config approach (editing claude_desktop_config.json with an "mcpSer
 - Need to restrict which tables the AI sees → Open the Connection card on the Connections page, click "Manage Tables", select the tables, save.
 
 **Supported databases:** PostgreSQL, Neon, MySQL, MS SQL Server, Supabase
+**Supported APIs:** Mixpanel (events, funnels, user profiles), Stripe (customers, payments, subscriptions, revenue) — connect with a Mixpanel service account or a read-only Stripe restricted key. These have no tables, so there's no "Manage Tables" panel.
 
 ## Rules
 
@@ -0,0 +1,95 @@
+/**
+ * Per-endpoint rate limiting for MCP tool calls
+ *
+ * Two limits per endpoint, both from mcp_endpoints:
+ *   - rate_limit: tool calls per rolling 60-second window
+ *   - max_concurrent_calls: tool calls in flight at once
+ *
+ * This sits in front of the org-wide daily cap in canMakeRequest so a
+ * runaway agent loop on one connection is slowed down long before it
+ * can exhaust the whole organization's quota.
+ *
+ * State is in memory: the gateway runs as a single long-lived Railway
+ * process (see maxDuration in the MCP route). If it's ever scaled out,
+ * each instance enforces the limits independently.
+ */
+
+export const DEFAULT_RATE_LIMIT = 100
+export const DEFAULT_MAX_CONCURRENT_CALLS = 5
+
+const WINDOW_MS = 60_000
+
+export interface EndpointLimits {
+  /** mcp_endpoints.rate_limit — requests per minute. Null/0 = default. */
+  rate_limit?: number | null
+  /** mcp_endpoints.max_concurrent_calls. Null/0 = default. */
+  max_concurrent_calls?: number | null
+}
+
+export interface RateLimitCheck {
+  allowed: boolean
+  reason?: string
+  /** Seconds until a retry can succeed, when not allowed. */
+  retryAfterSeconds?: number
+  /** Frees the in-flight slot. Call exactly once when allowed (extra calls are no-ops). */
+  release: () => void
+}
+
+/** Call timestamps inside the current window, oldest first. */
+const recentCalls = new Map<string, number[]>()
+const inFlight = new Map<string, number>()
+
+function positiveOr(value: number | null | undefined, fallback: number): number {
+  return typeof value === 'number' && value > 0 ? value : fallback
+}
+
+/**
+ * Reserve a slot for one tool call on `endpointId`. On success the call
+ * counts against the per-minute window immediately and holds an
+ * in-flight slot until release() is called.
+ */
+export function acquireEndpointSlot(
+  endpointId: string,
+  limits: EndpointLimits
+): RateLimitCheck {
+  const perMinute = positiveOr(limits.rate_limit, DEFAULT_RATE_LIMIT)
+  const maxConcurrent = positiveOr(limits.max_concurrent_calls, DEFAULT_MAX_CONCURRENT_CALLS)
+  const now = Date.now()
+
+  const running = inFlight.get(endpointId) || 0
+  if (running >= maxConcurrent) {
+    return {
+      allowed: false,
+      reason: `Too many concurrent calls: ${running}/${maxConcurrent} already in flight for this endpoint`,
+      retryAfterSeconds: 1,
+      release: () => {},
+    }
+  }
+
+  const calls = (recentCalls.get(endpointId) || []).filter((t) => now - t < WINDOW_MS)
+  if (calls.length >= perMinute) {
+    recentCalls.set(endpointId, calls)
+    return {
+      allowed: false,
+      reason: `Rate limit exceeded: ${perMinute} calls per minute for this endpoint`,
+      retryAfterSeconds: Math.max(1, Math.ceil((calls[0] + WINDOW_MS - now) / 1000)),
+      release: () => {},
+    }
+  }
+
+  calls.push(now)
+  recentCalls.set(endpointId, calls)
+  inFlight.set(endpointId, running + 1)
+
+  let released = false
+  return {
+    allowed: true,
+    release: () => {
+      if (released) return
+      released = true
+      const remaining = (inFlight.get(endpointId) || 1) - 1
+      if (remaining > 0) inFlight.set(endpointId, remaining)
+      else inFlight.delete(endpointId)
+    },
+  }
+}
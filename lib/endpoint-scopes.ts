@@ -0,0 +1,86 @@
+/**
+ * Endpoint scopes — what one MCP endpoint of a credential exposes
+ *
+ * A credential can have several endpoints, each its own URL with its
+ * own settings, so one database connection can be shared at different
+ * levels, e.g. a query_table-only endpoint for a contractor that sees
+ * two tables:
+ *   allowed_tools   tool names; null = every tool of the service.
+ *                   fetch_more isn't listed: it follows execute_sql.
+ *   allowed_tables  table names; null = every table the credential
+ *                   allows. The gateway intersects it with the
+ *                   credential's allowed_tables (scopeAllowedTables in
+ *                   lib/mcp-handlers/registry.ts).
+ *   label           dashboard name only.
+ */
+
+import { FETCH_MORE_TOOL } from '@/lib/mcp-handlers/service'
+import type { McpService } from '@/lib/mcp-handlers/service'
+
+const MAX_LABEL_LENGTH = 100
+const MAX_SCOPE_TABLES = 500
+const MAX_TABLE_NAME_LENGTH = 200
+
+/** Tool names an endpoint can enable for `service`. */
+export function configurableTools(service: McpService): string[] {
+  return service.tools.map((tool) => tool.name).filter((name) => name !== FETCH_MORE_TOOL.name)
+}
+
+/** Validate a label from the dashboard. Blank = no label. */
+export function parseEndpointLabel(
+  input: any
+): { ok: true; label: string | null } | { ok: false; error: string } {
+  if (input === null) return { ok: true, label: null }
+  if (typeof input !== 'string') return { ok: false, error: 'label must be a string or null' }
+  const label = input.trim()
+  if (label.length > MAX_LABEL_LENGTH) {
+    return { ok: false, error: `label must be at most ${MAX_LABEL_LENGTH} characters` }
+  }
+  return { ok: true, label: label || null }
+}
+
+/** Validate allowed_tools against the service's tools. Null or empty = every tool. */
+export function parseAllowedTools(
+  input: any,
+  service: McpService
+): { ok: true; tools: string[] | null } | { ok: false; error: string } {
+  if (input === null) return { ok: true, tools: null }
+  if (!Array.isArray(input) || input.some((name) => typeof name !== 'string')) {
+    return { ok: false, error: 'allowed_tools must be a list of tool names or null' }
+  }
+
+  const available = configurableTools(service)
+  const unknown = input.find((name: string) => !available.includes(name))
+  if (unknown) {
+    return {
+      ok: false,
+      error: `Unknown tool for ${service.label}: ${unknown}. Available: ${available.join(', ')}`,
+    }
+  }
+
+  const tools = [...new Set(input as string[])]
+  return { ok: true, tools: tools.length > 0 ? tools : null }
+}
+
+/**
+ * Validate an endpoint's allowed_tables. Null or empty = no restriction
+ * beyond the credential's. Names aren't checked against the database —
+ * a table that doesn't exist simply never matches.
+ */
+export function parseTableScope(
+  input: any
+): { ok: true; tables: string[] | null } | { ok: false; error: string } {
+  if (input === null) return { ok: true, tables: null }
+  if (!Array.isArray(input) || input.some((name) => typeof name !== 'string')) {
+    return { ok: false, error: 'allowed_tables must be a list of table names or null' }
+  }
+
+  const tables = [...new Set(input.map((name: string) => name.trim()).filter(Boolean))]
+  if (tables.length > MAX_SCOPE_TABLES) {
+    return { ok: false, error: `allowed_tables can have at most ${MAX_SCOPE_TABLES} entries` }
+  }
+  if (tables.some((name) => name.length > MAX_TABLE_NAME_LENGTH)) {
+    return { ok: false, error: `Table names must be at most ${MAX_TABLE_NAME_LENGTH} characters` }
+  }
+  return { ok: true, tables: tables.length > 0 ? tables : null }
+}
@@ -0,0 +1,60 @@
+/**
+ * Endpoint URLs and URL rotation
+ *
+ * An endpoint's URL is `/api/mcp/<nanoid(20)>`, and for URL-only
+ * endpoints the path is the secret. Rotating mints a new path and keeps
+ * the old one working as previous_endpoint_url until
+ * previous_url_expires_at, so clients can be moved over without
+ * downtime. Tool calls that arrive on the old URL are logged with
+ * via_previous_url and the client's user-agent, which is how the
+ * dashboard shows who still needs updating. Rotating again while an old
+ * URL is in its grace period revokes that one at once.
+ */
+
+import { nanoid } from 'nanoid'
+
+export const DEFAULT_ROTATION_GRACE_HOURS = 24
+export const MAX_ROTATION_GRACE_HOURS = 30 * 24
+
+/** nanoid's alphabet. Anything else can't be an endpoint path. */
+const ENDPOINT_PATH_RE = /^[A-Za-z0-9_-]{1,64}$/
+
+export function endpointUrl(endpointPath: string): string {
+  return `/api/mcp/${endpointPath}`
+}
+
+/** A fresh endpoint URL. */
+export function newEndpointUrl(): string {
+  return endpointUrl(nanoid(20))
+}
+
+/**
+ * PostgREST `.or()` filter for the endpoint a request path names: its
+ * current URL or its previous one. Null for paths that can't be an
+ * endpoint, which also keeps filter syntax out of the query.
+ */
+export function endpointUrlFilter(endpointPath: string): string | null {
+  if (!ENDPOINT_PATH_RE.test(endpointPath)) return null
+  const url = endpointUrl(endpointPath)
+  return `endpoint_url.eq.${url},previous_endpoint_url.eq.${url}`
+}
+
+/**
+ * Which of the endpoint's URLs `endpointPath` is: 'current', 'previous'
+ * while its grace period lasts, else null.
+ */
+export function matchEndpointUrl(
+  endpoint: { endpoint_url: string; previous_endpoint_url?: string | null; previous_url_expires_at?: string | null },
+  endpointPath: string
+): 'current' | 'previous' | null {
+  const url = endpointUrl(endpointPath)
+  if (endpoint.endpoint_url === url) return 'current'
+  if (
+    endpoint.previous_endpoint_url === url &&
+    endpoint.previous_url_expires_at &&
+    new Date(endpoint.previous_url_expires_at).getTime() > Date.now()
+  ) {
+    return 'previous'
+  }
+  return null
+}
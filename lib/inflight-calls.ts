@@ -0,0 +1,66 @@
+/**
+ * In-flight MCP tool calls, for cancellation
+ *
+ * The gateway registers every running tool call under its MCP session
+ * and JSON-RPC request ID. A `notifications/cancelled` for that ID —
+ * which arrives as a separate POST — or the call's own HTTP request
+ * being aborted fires the call's AbortSignal, and the SQL handler
+ * cancels the query on the database server.
+ *
+ * Session-less clients have no scope of their own: every client of the
+ * endpoint would share one, and reused request IDs (most clients start
+ * at 1) would cancel each other's calls. Their calls are only cancelled
+ * by disconnecting.
+ *
+ * In memory, like lib/endpoint-rate-limit.ts: the gateway is a single
+ * long-lived process.
+ */
+
+export interface TrackedCall {
+  signal: AbortSignal
+  /** Unregister the call. Call exactly once, when it finishes. */
+  done: () => void
+}
+
+const inflight = new Map<string, AbortController>()
+
+function callKey(scope: string, requestId: unknown): string {
+  // JSON keeps the numeric ID 1 distinct from the string ID "1"
+  return `${scope}:${JSON.stringify(requestId)}`
+}
+
+/**
+ * Register a tool call. `clientSignal` is the HTTP request's signal, so
+ * a client that disconnects cancels the call too. A null scope (no
+ * session) leaves the call out of cancelToolCall's reach.
+ */
+export function trackToolCall(
+  scope: string | null,
+  requestId: unknown,
+  clientSignal?: AbortSignal
+): TrackedCall {
+  const key = scope === null ? null : callKey(scope, requestId)
+  const controller = new AbortController()
+  if (key) inflight.set(key, controller)
+
+  const onClientAbort = () => controller.abort('Client disconnected')
+  if (clientSignal?.aborted) onClientAbort()
+  else clientSignal?.addEventListener('abort', onClientAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    done: () => {
+      clientSignal?.removeEventListener('abort', onClientAbort)
+      if (key && inflight.get(key) === controller) inflight.delete(key)
+    },
+  }
+}
+
+/** Cancel a tracked call. Returns false when no call with that ID is running. */
+export function cancelToolCall(scope: string | null, requestId: unknown, reason?: string): boolean {
+  if (scope === null) return false
+  const controller = inflight.get(callKey(scope, requestId))
+  if (!controller) return false
+  controller.abort(reason || 'Cancelled by client')
+  return true
+}
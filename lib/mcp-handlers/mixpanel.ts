@@ -5,6 +5,8 @@
  * and executes read-only analytics operations.
  */
 
+import type { McpService } from '@/lib/mcp-handlers/service'
+
 // ─── Tool Definitions (MCP schema) ──────────────────────────────────
 
 export const MIXPANEL_TOOLS = [
@@ -133,7 +135,7 @@ export const MIXPANEL_TOOLS = [
 const MIXPANEL_API_BASE = 'https://mixpanel.com/api'
 const MIXPANEL_DATA_API = 'https://data.mixpanel.com/api'
 
-interface MixpanelConfig {
+export interface MixpanelConfig {
   project_id: string
   service_account_username: string
   service_account_secret: string
@@ -321,3 +323,29 @@ export async function handleMixpanelTool(
     return { success: false, error: err.message || 'Tool execution failed' }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export const MIXPANEL_SERVICE: McpService<MixpanelConfig> = {
+  label: 'Mixpanel',
+  tools: MIXPANEL_TOOLS,
+  buildConfig: (decrypted) => ({
+    project_id: decrypted.project_id,
+    service_account_username: decrypted.service_account_username,
+    service_account_secret: decrypted.service_account_secret,
+  }),
+  validateConfig: (config) =>
+    !config.project_id ||
+    !config.service_account_username ||
+    !config.service_account_secret
+      ? 'Need project_id, service_account_username, and service_account_secret.'
+      : null,
+  handleTool: handleMixpanelTool,
+  testConnection: async (config) => {
+    const events = await getTopEvents(config, { limit: 3 })
+    const names = Array.isArray(events) ? events : []
+    return names.length > 0
+      ? `I can see your Mixpanel project, including events like ${names.map((n) => `"${n}"`).join(', ')}.`
+      : 'I can see your Mixpanel project, but it has no events yet.'
+  },
+}
@@ -8,8 +8,32 @@
  */
 
 import sql from 'mssql'
-import { sanitizeSql, sanitizeTableName, withSqlHint, capSqlResult } from '@/lib/sql-sanitizer'
+import { sanitizeSql, pageSql, sanitizeTableName, withSqlHint, capSqlResult, capTableRows, checkTableAccess } from '@/lib/sql-sanitizer'
+import { applyCostGuard, estimateFromShowplanXml, withCostWarning } from '@/lib/sql-cost-guard'
+import type { PlanEstimate } from '@/lib/sql-cost-guard'
 import type { ToolCallResult } from '@/lib/mcp-handlers/supabase'
+import { RESULT_FORMAT_PROPERTY } from '@/lib/result-format'
+import { prepareSqlParams, sqlParamsProperty } from '@/lib/sql-params'
+import type { SqlParam, SqlParamType } from '@/lib/sql-params'
+import {
+  buildSqlConfig,
+  validateSqlConfig,
+  listTablesViaTool,
+  onAbort,
+  CANCELLED_ERROR,
+  groupSchemaColumns,
+  groupTableKeys,
+  SCHEMA_RESOURCE_OP,
+  TABLE_RESOURCE_OP,
+  RESOURCE_SAMPLE_ROWS,
+  SQL_TOOL_OUTPUT_SCHEMAS,
+  READ_ONLY_TOOL_ANNOTATIONS,
+  FETCH_MORE_TOOL,
+  type McpService,
+  type ToolCallContext,
+  type SchemaColumnRow,
+  type KeyColumnRow,
+} from '@/lib/mcp-handlers/service'
 
 const MAX_ROWS = 500
 
@@ -24,6 +48,8 @@ export const MSSQL_TOOLS = [
       properties: {},
       required: [],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.list_tables,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'describe_table',
@@ -38,6 +64,8 @@ export const MSSQL_TOOLS = [
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.describe_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'query_table',
@@ -82,9 +110,12 @@ export const MSSQL_TOOLS = [
           description: 'Sort direction',
           default: 'asc',
         },
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.query_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'execute_sql',
@@ -97,10 +128,15 @@ export const MSSQL_TOOLS = [
           type: 'string',
           description: 'SQL query to execute. Must be a SELECT statement.',
         },
+        params: sqlParamsProperty('mssql'),
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['sql'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.execute_sql,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
+  FETCH_MORE_TOOL,
 ]
 
 // ─── MS SQL Config Type ─────────────────────────────────────────────
@@ -133,6 +169,7 @@ function createMssqlConfig(config: MssqlConfig): sql.config {
       encrypt: useEncrypt,
       trustServerCertificate: useEncrypt, // Allow self-signed certs common in cloud
       connectTimeout: 10000,
+      readOnlyIntent: true,
       // 120s: Dataverse/CRM joins routinely exceed the old 30s cap (see
       // customer timeout errors in usage_logs). Must stay below the
       // route's maxDuration so the DB, not the platform, kills the query.
@@ -141,10 +178,78 @@ function createMssqlConfig(config: MssqlConfig): sql.config {
   }
 }
 
+// ─── Read-Only Session ──────────────────────────────────────────────
+
+/**
+ * SQL Server has no read-only transaction mode, so every tool call runs
+ * inside a transaction that is always rolled back — anything that slips
+ * past the SQL sanitizer is undone. readOnlyIntent additionally routes
+ * to a readable secondary on Availability Group listeners.
+ */
+async function beginRollbackOnly(pool: sql.ConnectionPool): Promise<sql.Transaction> {
+  const tx = new sql.Transaction(pool)
+  await tx.begin(sql.ISOLATION_LEVEL.READ_COMMITTED)
+  txRequests.set(tx, new Set())
+  return tx
+}
+
+async function rollback(tx: sql.Transaction | null): Promise<void> {
+  if (!tx) return
+  try {
+    await tx.rollback()
+  } catch {
+    // Already aborted by the server (e.g. XACT_ABORT) — nothing to undo
+  }
+}
+
+// ─── Cancellation ───────────────────────────────────────────────────
+
+/** Requests created on each transaction, so a cancel can reach the running one. */
+const txRequests = new WeakMap<sql.Transaction, Set<sql.Request>>()
+
+function newRequest(tx: sql.Transaction): sql.Request {
+  const request = tx.request()
+  txRequests.get(tx)?.add(request)
+  return request
+}
+
+/**
+ * Cancel the request running on `tx` (a TDS attention signal). Requests
+ * that already finished ignore the cancel.
+ */
+async function cancelQuery(tx: sql.Transaction): Promise<void> {
+  for (const request of txRequests.get(tx) || []) {
+    request.cancel()
+  }
+}
+
+// ─── Bind Parameters ────────────────────────────────────────────────
+
+/** Declared parameter type per execute_sql type hint. */
+const PARAM_SQL_TYPES: Record<SqlParamType, () => sql.ISqlType> = {
+  string: () => sql.NVarChar(sql.MAX),
+  integer: () => sql.BigInt(),
+  number: () => sql.Float(),
+  boolean: () => sql.Bit(),
+  date: () => sql.Date(),
+  timestamp: () => sql.DateTimeOffset(7),
+  json: () => sql.NVarChar(sql.MAX),
+}
+
+/** Bind params as @p1, @p2, ...; unhinted values let the driver infer the type. */
+function bindParams(request: sql.Request, params: SqlParam[]): sql.Request {
+  params.forEach((param, index) => {
+    const name = `p${index + 1}`
+    if (param.type) request.input(name, PARAM_SQL_TYPES[param.type](), param.value)
+    else request.input(name, param.value)
+  })
+  return request
+}
+
 // ─── Tool Implementations ────────────────────────────────────────────
 
-async function listTables(pool: sql.ConnectionPool): Promise<string[]> {
-  const result = await pool.request().query(`
+async function listTables(tx: sql.Transaction): Promise<string[]> {
+  const result = await newRequest(tx).query(`
     SELECT TABLE_SCHEMA, TABLE_NAME 
     FROM INFORMATION_SCHEMA.TABLES 
     WHERE TABLE_TYPE = 'BASE TABLE'
@@ -156,7 +261,7 @@ async function listTables(pool: sql.ConnectionPool): Promise<string[]> {
 }
 
 async function describeTable(
-  pool: sql.ConnectionPool,
+  tx: sql.Transaction,
   tableName: string
 ): Promise<any[]> {
   const safeName = sanitizeTableName(tableName)
@@ -164,7 +269,7 @@ async function describeTable(
   const schema = parts.length > 1 ? parts[0] : 'dbo'
   const table = parts.length > 1 ? parts[1] : parts[0]
 
-  const request = pool.request()
+  const request = newRequest(tx)
   request.input('schema', sql.VarChar(128), schema)
   request.input('table', sql.VarChar(128), table)
 
@@ -198,7 +303,7 @@ interface QueryParams {
 }
 
 async function queryTable(
-  pool: sql.ConnectionPool,
+  tx: sql.Transaction,
   params: QueryParams
 ): Promise<any[]> {
   const safeName = sanitizeTableName(params.table_name)
@@ -226,7 +331,7 @@ async function queryTable(
       : '*'
 
   const whereClauses: string[] = []
-  const request = pool.request()
+  const request = newRequest(tx)
 
   if (params.filters && typeof params.filters === 'object') {
     let i = 0
@@ -258,13 +363,101 @@ async function queryTable(
   return result.recordset as any[]
 }
 
-async function executeSql(pool: sql.ConnectionPool, sqlStr: string): Promise<any> {
-  const check = sanitizeSql(sqlStr)
+/** Every base table's columns in one catalog query (schema resource). */
+async function readSchema(tx: sql.Transaction): Promise<SchemaColumnRow[]> {
+  const result = await newRequest(tx).query(`
+    SELECT
+      CASE WHEN c.TABLE_SCHEMA = 'dbo' THEN c.TABLE_NAME
+           ELSE c.TABLE_SCHEMA + '.' + c.TABLE_NAME END as table_name,
+      c.COLUMN_NAME as column_name,
+      c.DATA_TYPE as data_type,
+      c.IS_NULLABLE as is_nullable
+    FROM INFORMATION_SCHEMA.COLUMNS c
+    JOIN INFORMATION_SCHEMA.TABLES t
+      ON t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME
+    WHERE t.TABLE_TYPE = 'BASE TABLE'
+    ORDER BY c.TABLE_SCHEMA, c.TABLE_NAME, c.ORDINAL_POSITION
+  `)
+  return result.recordset as SchemaColumnRow[]
+}
+
+/** Primary and foreign key columns. */
+async function describeKeys(tx: sql.Transaction, tableName: string): Promise<KeyColumnRow[]> {
+  const safeName = sanitizeTableName(tableName)
+  const parts = safeName.includes('.') ? safeName.split('.').map((p) => p.trim()) : [safeName]
+  const schema = parts.length > 1 ? parts[0] : 'dbo'
+  const table = parts.length > 1 ? parts[1] : parts[0]
+
+  const request = newRequest(tx)
+  request.input('schema', sql.VarChar(128), schema)
+  request.input('table', sql.VarChar(128), table)
+
+  const result = await request.query(`
+    SELECT
+      tc.CONSTRAINT_TYPE as constraint_type,
+      kcu.COLUMN_NAME as column_name,
+      CASE WHEN rkcu.TABLE_SCHEMA = 'dbo' THEN rkcu.TABLE_NAME
+           ELSE rkcu.TABLE_SCHEMA + '.' + rkcu.TABLE_NAME END as ref_table,
+      rkcu.COLUMN_NAME as ref_column
+    FROM INFORMATION_SCHEMA.TABLE_CONSTRAINTS tc
+    JOIN INFORMATION_SCHEMA.KEY_COLUMN_USAGE kcu
+      ON kcu.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA AND kcu.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+    LEFT JOIN INFORMATION_SCHEMA.REFERENTIAL_CONSTRAINTS rc
+      ON rc.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA AND rc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+    LEFT JOIN INFORMATION_SCHEMA.KEY_COLUMN_USAGE rkcu
+      ON rkcu.CONSTRAINT_SCHEMA = rc.UNIQUE_CONSTRAINT_SCHEMA
+      AND rkcu.CONSTRAINT_NAME = rc.UNIQUE_CONSTRAINT_NAME
+      AND rkcu.ORDINAL_POSITION = kcu.ORDINAL_POSITION
+    WHERE tc.TABLE_SCHEMA = @schema AND tc.TABLE_NAME = @table
+    AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'FOREIGN KEY')
+    ORDER BY tc.CONSTRAINT_TYPE DESC, tc.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+  `)
+  return result.recordset as KeyColumnRow[]
+}
+
+/**
+ * SHOWPLAN_XML must be the only statement in its batch, and while it's
+ * on the server returns plans instead of executing anything.
+ */
+async function estimateCost(
+  tx: sql.Transaction,
+  sqlStr: string,
+  params: SqlParam[]
+): Promise<PlanEstimate | null> {
+  await newRequest(tx).batch('SET SHOWPLAN_XML ON')
+  try {
+    // batch() can't bind parameters; query() sends sp_executesql, whose
+    // statement plan SHOWPLAN_XML returns the same way
+    const request = bindParams(newRequest(tx), params)
+    const result = params.length > 0 ? await request.query(sqlStr) : await request.batch(sqlStr)
+    const xml = Object.values(result.recordset?.[0] || {})[0]
+    return typeof xml === 'string' ? estimateFromShowplanXml(xml) : null
+  } finally {
+    await newRequest(tx).batch('SET SHOWPLAN_XML OFF')
+  }
+}
+
+async function executeSql(
+  tx: sql.Transaction,
+  sqlStr: string,
+  params: SqlParam[],
+  context: ToolCallContext
+): Promise<any> {
+  const check = sanitizeSql(sqlStr, 'mssql', context.sqlDenylist)
   if (!check.safe) {
     throw new Error(`SQL rejected: ${check.reason}`)
   }
-  const result = await pool.request().query(sqlStr)
-  return capSqlResult(result.recordset, MAX_ROWS)
+
+  const costWarning = await applyCostGuard(context.costGuard, () => estimateCost(tx, sqlStr, params))
+
+  // Read only this page; the cost guard above judged the whole query
+  const offset = context.rowOffset ?? 0
+  const paged = pageSql(check.statement ?? sqlStr, 'mssql', offset, MAX_ROWS)
+
+  context.onProgress?.('Query started')
+  const result = await bindParams(newRequest(tx), params).query(paged ?? sqlStr)
+  context.onProgress?.(`Fetched ${result.recordset?.length ?? 0} rows`)
+  return withCostWarning(capSqlResult(result.recordset, MAX_ROWS, offset, !!paged), costWarning)
 }
 
 // ─── Main Handler ───────────────────────────────────────────────────
@@ -273,17 +466,30 @@ export async function handleMssqlTool(
   toolName: string,
   args: Record<string, any>,
   config: MssqlConfig,
-  allowedTables?: string[]
+  context: ToolCallContext = {}
 ): Promise<ToolCallResult> {
+  if (context.signal?.aborted) {
+    return { success: false, error: CANCELLED_ERROR }
+  }
+
   const pool = await sql.connect(createMssqlConfig(config))
+  let stopCancel = () => {}
 
+  const { allowedTables } = context
   const isTableAllowed = (tableName: string) =>
     !allowedTables || allowedTables.includes(tableName)
 
+  let tx: sql.Transaction | null = null
+
   try {
+    tx = await beginRollbackOnly(pool)
+    const activeTx = tx
+    stopCancel = onAbort(context.signal, () => cancelQuery(activeTx))
+    context.onProgress?.('Connected to database')
+
     switch (toolName) {
       case 'list_tables': {
-        let tables = await listTables(pool)
+        let tables = await listTables(tx)
         if (allowedTables) {
           tables = tables.filter((t) => allowedTables.includes(t))
         }
@@ -297,7 +503,7 @@ export async function handleMssqlTool(
         if (!isTableAllowed(args.table_name)) {
           return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
         }
-        const columns = await describeTable(pool, args.table_name)
+        const columns = await describeTable(tx, args.table_name)
         return { success: true, data: { table: args.table_name, columns } }
       }
 
@@ -308,10 +514,12 @@ export async function handleMssqlTool(
         if (!isTableAllowed(args.table_name)) {
           return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
         }
-        const rows = await queryTable(pool, args as QueryParams)
+        context.onProgress?.('Query started')
+        const rows = await queryTable(tx, args as QueryParams)
+        context.onProgress?.(`Fetched ${rows.length} rows`)
         return {
           success: true,
-          data: { table: args.table_name, row_count: rows.length, rows },
+          data: capTableRows(args.table_name, rows, MAX_ROWS),
         }
       }
 
@@ -319,20 +527,56 @@ export async function handleMssqlTool(
         if (!args.sql) {
           return { success: false, error: 'sql is required' }
         }
+        if (allowedTables) {
+          const access = checkTableAccess(args.sql, 'mssql', allowedTables, config.database)
+          if (!access.safe) {
+            return { success: false, error: access.reason }
+          }
+        }
+        const params = prepareSqlParams(args.params, args.sql, 'mssql')
+        if (!params.ok) {
+          return { success: false, error: params.error }
+        }
         try {
-          const result = await executeSql(pool, args.sql)
+          const result = await executeSql(tx, args.sql, params.params, context)
           return { success: true, data: result }
         } catch (err: any) {
           return { success: false, error: withSqlHint(err.message) }
         }
       }
 
+      case SCHEMA_RESOURCE_OP: {
+        const rows = await readSchema(tx)
+        return { success: true, data: groupSchemaColumns(rows, allowedTables) }
+      }
+
+      case TABLE_RESOURCE_OP: {
+        if (!isTableAllowed(args.table_name)) {
+          return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
+        }
+        const columns = await describeTable(tx, args.table_name)
+        const keys = await describeKeys(tx, args.table_name)
+        const sample = await queryTable(tx, { table_name: args.table_name, limit: RESOURCE_SAMPLE_ROWS })
+        return {
+          success: true,
+          data: {
+            table: args.table_name,
+            columns,
+            ...groupTableKeys(keys),
+            // Same cell and byte caps as query_table
+            sample: capSqlResult(sample, RESOURCE_SAMPLE_ROWS),
+          },
+        }
+      }
+
       default:
         return { success: false, error: `Unknown tool: ${toolName}` }
     }
   } catch (err: any) {
     return { success: false, error: err.message || 'Tool execution failed' }
   } finally {
+    stopCancel()
+    await rollback(tx)
     try {
       await pool.close()
     } catch {
@@ -340,3 +584,17 @@ export async function handleMssqlTool(
     }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export const MSSQL_SERVICE: McpService<MssqlConfig> = {
+  label: 'MS SQL Server',
+  tools: MSSQL_TOOLS,
+  buildConfig: (decrypted) => buildSqlConfig(decrypted, '1433'),
+  validateConfig: validateSqlConfig,
+  handleTool: handleMssqlTool,
+  listTables: listTablesViaTool(handleMssqlTool),
+  resources: true,
+  sqlDialect: 'mssql',
+  costGuard: true,
+}
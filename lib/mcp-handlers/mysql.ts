@@ -8,8 +8,32 @@
  */
 
 import mysql from 'mysql2/promise'
-import { sanitizeSql, sanitizeTableName, capSqlResult } from '@/lib/sql-sanitizer'
+import { sanitizeSql, pageSql, sanitizeTableName, capSqlResult, capTableRows, checkTableAccess } from '@/lib/sql-sanitizer'
+import { applyCostGuard, estimateFromMysqlPlan, withCostWarning } from '@/lib/sql-cost-guard'
+import type { PlanEstimate } from '@/lib/sql-cost-guard'
 import type { ToolCallResult } from '@/lib/mcp-handlers/supabase'
+import { RESULT_FORMAT_PROPERTY } from '@/lib/result-format'
+import { prepareSqlParams, sqlParamsProperty } from '@/lib/sql-params'
+import type { SqlParam } from '@/lib/sql-params'
+import {
+  buildSqlConfig,
+  validateSqlConfig,
+  listTablesViaTool,
+  onAbort,
+  CANCELLED_ERROR,
+  groupSchemaColumns,
+  groupTableKeys,
+  SCHEMA_RESOURCE_OP,
+  TABLE_RESOURCE_OP,
+  RESOURCE_SAMPLE_ROWS,
+  SQL_TOOL_OUTPUT_SCHEMAS,
+  READ_ONLY_TOOL_ANNOTATIONS,
+  FETCH_MORE_TOOL,
+  type McpService,
+  type ToolCallContext,
+  type SchemaColumnRow,
+  type KeyColumnRow,
+} from '@/lib/mcp-handlers/service'
 
 const MAX_ROWS = 500
 
@@ -24,6 +48,8 @@ export const MYSQL_TOOLS = [
       properties: {},
       required: [],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.list_tables,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'describe_table',
@@ -38,6 +64,8 @@ export const MYSQL_TOOLS = [
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.describe_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'query_table',
@@ -82,9 +110,12 @@ export const MYSQL_TOOLS = [
           description: 'Sort direction',
           default: 'asc',
         },
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.query_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'execute_sql',
@@ -97,10 +128,15 @@ export const MYSQL_TOOLS = [
           type: 'string',
           description: 'SQL query to execute. Must be a SELECT statement.',
         },
+        params: sqlParamsProperty('mysql'),
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['sql'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.execute_sql,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
+  FETCH_MORE_TOOL,
 ]
 
 // ─── MySQL Config Type ───────────────────────────────────────────────
@@ -134,6 +170,43 @@ function createMysqlConnection(config: MysqlConfig): mysql.ConnectionOptions {
   }
 }
 
+// ─── Read-Only Session ───────────────────────────────────────────────
+
+/**
+ * Server-enforced read-only mode, on top of the SQL sanitizer, for
+ * customers who can't create a dedicated read-only user. The session
+ * default covers anything that escapes the transaction; the transaction
+ * itself is always rolled back. Sent with query(), not execute():
+ * transaction statements can't be prepared.
+ */
+async function beginReadOnly(conn: mysql.Connection): Promise<void> {
+  await conn.query('SET SESSION TRANSACTION READ ONLY')
+  await conn.query('START TRANSACTION READ ONLY')
+}
+
+async function rollback(conn: mysql.Connection): Promise<void> {
+  try {
+    await conn.query('ROLLBACK')
+  } catch {
+    // Connection already broken — closing it discards the transaction
+  }
+}
+
+// ─── Cancellation ────────────────────────────────────────────────────
+
+/**
+ * Stop the statement running on `conn` from a second connection. KILL
+ * QUERY leaves the connection itself open, so the rollback still runs.
+ */
+async function cancelQuery(config: MysqlConfig, conn: mysql.Connection): Promise<void> {
+  const killer = await mysql.createConnection(createMysqlConnection(config))
+  try {
+    await killer.query('KILL QUERY ?', [conn.threadId])
+  } finally {
+    await killer.end().catch(() => {})
+  }
+}
+
 // ─── Tool Implementations ────────────────────────────────────────────
 
 async function listTables(conn: mysql.Connection, database: string): Promise<string[]> {
@@ -241,14 +314,80 @@ async function queryTable(
   return rows
 }
 
-async function executeSql(conn: mysql.Connection, sql: string): Promise<any> {
-  const check = sanitizeSql(sql)
+/** Every base table's columns in one catalog query (schema resource). */
+async function readSchema(conn: mysql.Connection, database: string): Promise<SchemaColumnRow[]> {
+  const [rows] = await conn.execute<mysql.RowDataPacket[]>(
+    `SELECT
+       c.TABLE_NAME as table_name,
+       c.COLUMN_NAME as column_name,
+       c.DATA_TYPE as data_type,
+       c.IS_NULLABLE as is_nullable
+     FROM INFORMATION_SCHEMA.COLUMNS c
+     JOIN INFORMATION_SCHEMA.TABLES t
+       ON t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME
+     WHERE c.TABLE_SCHEMA = ?
+     AND t.TABLE_TYPE = 'BASE TABLE'
+     ORDER BY c.TABLE_NAME, c.ORDINAL_POSITION`,
+    [database]
+  )
+  return rows as SchemaColumnRow[]
+}
+
+/** Primary and foreign key columns. */
+async function describeKeys(
+  conn: mysql.Connection,
+  database: string,
+  tableName: string
+): Promise<KeyColumnRow[]> {
+  const safeName = sanitizeTableName(tableName)
+  const [rows] = await conn.execute<mysql.RowDataPacket[]>(
+    `SELECT
+       IF(CONSTRAINT_NAME = 'PRIMARY', 'PRIMARY KEY', 'FOREIGN KEY') as constraint_type,
+       COLUMN_NAME as column_name,
+       IF(REFERENCED_TABLE_SCHEMA = TABLE_SCHEMA, REFERENCED_TABLE_NAME,
+          CONCAT(REFERENCED_TABLE_SCHEMA, '.', REFERENCED_TABLE_NAME)) as ref_table,
+       REFERENCED_COLUMN_NAME as ref_column
+     FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+     WHERE TABLE_SCHEMA = ?
+     AND TABLE_NAME = ?
+     AND (CONSTRAINT_NAME = 'PRIMARY' OR REFERENCED_TABLE_NAME IS NOT NULL)
+     ORDER BY CONSTRAINT_NAME = 'PRIMARY' DESC, CONSTRAINT_NAME, ORDINAL_POSITION`,
+    [database, safeName]
+  )
+  return rows as KeyColumnRow[]
+}
+
+async function estimateCost(
+  conn: mysql.Connection,
+  sql: string,
+  values: SqlParam['value'][]
+): Promise<PlanEstimate | null> {
+  const [rows] = await conn.query<mysql.RowDataPacket[]>(`EXPLAIN FORMAT=JSON ${sql}`, values)
+  return rows[0]?.EXPLAIN ? estimateFromMysqlPlan(rows[0].EXPLAIN) : null
+}
+
+async function executeSql(
+  conn: mysql.Connection,
+  sql: string,
+  params: SqlParam[],
+  context: ToolCallContext
+): Promise<any> {
+  const check = sanitizeSql(sql, 'mysql', context.sqlDenylist)
   if (!check.safe) {
     throw new Error(`SQL rejected: ${check.reason}`)
   }
 
-  const [rows] = await conn.execute(sql)
-  return capSqlResult(rows, MAX_ROWS)
+  const values = params.map((p) => p.value)
+  const costWarning = await applyCostGuard(context.costGuard, () => estimateCost(conn, sql, values))
+
+  // Read only this page; the cost guard above judged the whole query
+  const offset = context.rowOffset ?? 0
+  const paged = pageSql(check.statement ?? sql, 'mysql', offset, MAX_ROWS)
+
+  context.onProgress?.('Query started')
+  const [rows] = await conn.execute(paged ?? sql, values)
+  if (Array.isArray(rows)) context.onProgress?.(`Fetched ${rows.length} rows`)
+  return withCostWarning(capSqlResult(rows, MAX_ROWS, offset, !!paged), costWarning)
 }
 
 // ─── Main Handler ────────────────────────────────────────────────────
@@ -257,14 +396,22 @@ export async function handleMysqlTool(
   toolName: string,
   args: Record<string, any>,
   config: MysqlConfig,
-  allowedTables?: string[]
+  context: ToolCallContext = {}
 ): Promise<ToolCallResult> {
+  if (context.signal?.aborted) {
+    return { success: false, error: CANCELLED_ERROR }
+  }
+
   const conn = await mysql.createConnection(createMysqlConnection(config))
+  const stopCancel = onAbort(context.signal, () => cancelQuery(config, conn))
 
+  const { allowedTables } = context
   const isTableAllowed = (tableName: string) =>
     !allowedTables || allowedTables.includes(tableName)
 
   try {
+    await beginReadOnly(conn)
+    context.onProgress?.('Connected to database')
     const database = config.database
 
     switch (toolName) {
@@ -294,10 +441,12 @@ export async function handleMysqlTool(
         if (!isTableAllowed(args.table_name)) {
           return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
         }
+        context.onProgress?.('Query started')
         const rows = await queryTable(conn, database, args as QueryParams)
+        context.onProgress?.(`Fetched ${rows.length} rows`)
         return {
           success: true,
-          data: { table: args.table_name, row_count: rows.length, rows },
+          data: capTableRows(args.table_name, rows, MAX_ROWS),
         }
       }
 
@@ -305,16 +454,52 @@ export async function handleMysqlTool(
         if (!args.sql) {
           return { success: false, error: 'sql is required' }
         }
-        const result = await executeSql(conn, args.sql)
+        if (allowedTables) {
+          const access = checkTableAccess(args.sql, 'mysql', allowedTables, database)
+          if (!access.safe) {
+            return { success: false, error: access.reason }
+          }
+        }
+        const params = prepareSqlParams(args.params, args.sql, 'mysql')
+        if (!params.ok) {
+          return { success: false, error: params.error }
+        }
+        const result = await executeSql(conn, args.sql, params.params, context)
         return { success: true, data: result }
       }
 
+      case SCHEMA_RESOURCE_OP: {
+        const rows = await readSchema(conn, database)
+        return { success: true, data: groupSchemaColumns(rows, allowedTables) }
+      }
+
+      case TABLE_RESOURCE_OP: {
+        if (!isTableAllowed(args.table_name)) {
+          return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
+        }
+        const columns = await describeTable(conn, database, args.table_name)
+        const keys = await describeKeys(conn, database, args.table_name)
+        const sample = await queryTable(conn, database, { table_name: args.table_name, limit: RESOURCE_SAMPLE_ROWS })
+        return {
+          success: true,
+          data: {
+            table: args.table_name,
+            columns,
+            ...groupTableKeys(keys),
+            // Same cell and byte caps as query_table
+            sample: capSqlResult(sample, RESOURCE_SAMPLE_ROWS),
+          },
+        }
+      }
+
       default:
         return { success: false, error: `Unknown tool: ${toolName}` }
     }
   } catch (err: any) {
     return { success: false, error: err.message || 'Tool execution failed' }
   } finally {
+    stopCancel()
+    await rollback(conn)
     try {
       await conn.end()
     } catch {
@@ -322,3 +507,17 @@ export async function handleMysqlTool(
     }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export const MYSQL_SERVICE: McpService<MysqlConfig> = {
+  label: 'MySQL',
+  tools: MYSQL_TOOLS,
+  buildConfig: (decrypted) => buildSqlConfig(decrypted, '3306'),
+  validateConfig: validateSqlConfig,
+  handleTool: handleMysqlTool,
+  listTables: listTablesViaTool(handleMysqlTool),
+  resources: true,
+  sqlDialect: 'mysql',
+  costGuard: true,
+}
@@ -8,8 +8,32 @@
  */
 
 import { Client } from 'pg'
-import { sanitizeSql, sanitizeTableName, withSqlHint, capSqlResult } from '@/lib/sql-sanitizer'
+import { sanitizeSql, pageSql, sanitizeTableName, withSqlHint, capSqlResult, capTableRows, checkTableAccess } from '@/lib/sql-sanitizer'
+import { applyCostGuard, estimateFromPostgresPlan, withCostWarning } from '@/lib/sql-cost-guard'
+import type { PlanEstimate } from '@/lib/sql-cost-guard'
 import type { ToolCallResult } from '@/lib/mcp-handlers/supabase'
+import { RESULT_FORMAT_PROPERTY } from '@/lib/result-format'
+import { prepareSqlParams, sqlParamsProperty } from '@/lib/sql-params'
+import type { SqlParam } from '@/lib/sql-params'
+import {
+  buildSqlConfig,
+  validateSqlConfig,
+  listTablesViaTool,
+  onAbort,
+  CANCELLED_ERROR,
+  groupSchemaColumns,
+  groupTableKeys,
+  SCHEMA_RESOURCE_OP,
+  TABLE_RESOURCE_OP,
+  RESOURCE_SAMPLE_ROWS,
+  SQL_TOOL_OUTPUT_SCHEMAS,
+  READ_ONLY_TOOL_ANNOTATIONS,
+  FETCH_MORE_TOOL,
+  type McpService,
+  type ToolCallContext,
+  type SchemaColumnRow,
+  type KeyColumnRow,
+} from '@/lib/mcp-handlers/service'
 
 const MAX_ROWS = 500
 
@@ -24,6 +48,8 @@ export const POSTGRESQL_TOOLS = [
       properties: {},
       required: [],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.list_tables,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'describe_table',
@@ -39,6 +65,8 @@ export const POSTGRESQL_TOOLS = [
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.describe_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'query_table',
@@ -84,9 +112,12 @@ export const POSTGRESQL_TOOLS = [
           description: 'Sort direction',
           default: 'asc',
         },
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.query_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'execute_sql',
@@ -99,10 +130,15 @@ export const POSTGRESQL_TOOLS = [
           type: 'string',
           description: 'SQL query to execute. Must be a SELECT statement.',
         },
+        params: sqlParamsProperty('postgresql'),
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['sql'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.execute_sql,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
+  FETCH_MORE_TOOL,
 ]
 
 // ─── PostgreSQL Config Type ─────────────────────────────────────────
@@ -140,6 +176,43 @@ function createPgClient(config: PostgresqlConfig): Client {
   })
 }
 
+// ─── Read-Only Session ──────────────────────────────────────────────
+
+/**
+ * Server-enforced read-only mode, on top of the SQL sanitizer, for
+ * customers who can't create a dedicated read-only role. The session
+ * default covers anything that escapes the transaction; the transaction
+ * itself is always rolled back.
+ */
+async function beginReadOnly(client: Client): Promise<void> {
+  await client.query('SET SESSION CHARACTERISTICS AS TRANSACTION READ ONLY')
+  await client.query('BEGIN READ ONLY')
+}
+
+async function rollback(client: Client): Promise<void> {
+  try {
+    await client.query('ROLLBACK')
+  } catch {
+    // Connection already broken — closing it discards the transaction
+  }
+}
+
+// ─── Cancellation ───────────────────────────────────────────────────
+
+/** Cancel the statement running on `client`, from a second connection. */
+async function cancelQuery(config: PostgresqlConfig, client: Client): Promise<void> {
+  const pid = (client as any).processID
+  if (!pid) return
+
+  const canceller = createPgClient(config)
+  try {
+    await canceller.connect()
+    await canceller.query('SELECT pg_cancel_backend($1)', [pid])
+  } finally {
+    await canceller.end().catch(() => {})
+  }
+}
+
 // ─── Tool Implementations ───────────────────────────────────────────
 
 async function listTables(client: Client): Promise<string[]> {
@@ -263,15 +336,86 @@ async function queryTable(
   return result.rows
 }
 
-async function executeSql(client: Client, sql: string): Promise<any> {
+/** Every base table's columns in one catalog query (schema resource). */
+async function readSchema(client: Client): Promise<SchemaColumnRow[]> {
+  const result = await client.query(
+    `SELECT
+       CASE WHEN c.table_schema = 'public' THEN c.table_name
+            ELSE c.table_schema || '.' || c.table_name END AS table_name,
+       c.column_name,
+       c.data_type,
+       c.is_nullable
+     FROM information_schema.columns c
+     JOIN information_schema.tables t
+       ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+     WHERE t.table_type = 'BASE TABLE'
+     AND c.table_schema NOT IN ('pg_catalog', 'information_schema')
+     ORDER BY c.table_schema, c.table_name, c.ordinal_position`
+  )
+  return result.rows
+}
+
+/**
+ * Primary and foreign key columns. Reads pg_constraint rather than
+ * information_schema.constraint_column_usage, which only shows tables
+ * the connecting role owns.
+ */
+async function describeKeys(client: Client, tableName: string): Promise<KeyColumnRow[]> {
+  const [schema, table] = splitSchemaTable(sanitizeTableName(tableName))
+  const result = await client.query(
+    `SELECT
+       CASE con.contype WHEN 'p' THEN 'PRIMARY KEY' ELSE 'FOREIGN KEY' END AS constraint_type,
+       a.attname AS column_name,
+       CASE WHEN rn.nspname = 'public' THEN rc.relname
+            ELSE rn.nspname || '.' || rc.relname END AS ref_table,
+       ra.attname AS ref_column
+     FROM pg_constraint con
+     JOIN pg_class c ON c.oid = con.conrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, ref_attnum, ord)
+     JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+     LEFT JOIN pg_class rc ON rc.oid = con.confrelid
+     LEFT JOIN pg_namespace rn ON rn.oid = rc.relnamespace
+     LEFT JOIN pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = k.ref_attnum
+     WHERE n.nspname = $1 AND c.relname = $2 AND con.contype IN ('p', 'f')
+     ORDER BY con.contype DESC, con.conname, k.ord`,
+    [schema, table]
+  )
+  return result.rows
+}
+
+async function estimateCost(
+  client: Client,
+  sql: string,
+  values: SqlParam['value'][]
+): Promise<PlanEstimate | null> {
+  const result = await client.query(`EXPLAIN (FORMAT JSON) ${sql}`, values)
+  return estimateFromPostgresPlan(result.rows[0]?.['QUERY PLAN'])
+}
+
+async function executeSql(
+  client: Client,
+  sql: string,
+  params: SqlParam[],
+  context: ToolCallContext
+): Promise<any> {
   // Sanitize first — blocks destructive queries
-  const check = sanitizeSql(sql)
+  const check = sanitizeSql(sql, 'postgresql', context.sqlDenylist)
   if (!check.safe) {
     throw new Error(`SQL rejected: ${check.reason}`)
   }
 
-  const result = await client.query(sql)
-  return capSqlResult(result.rows, MAX_ROWS)
+  const values = params.map((p) => p.value)
+  const costWarning = await applyCostGuard(context.costGuard, () => estimateCost(client, sql, values))
+
+  // Read only this page; the cost guard above judged the whole query
+  const offset = context.rowOffset ?? 0
+  const paged = pageSql(check.statement ?? sql, 'postgresql', offset, MAX_ROWS)
+
+  context.onProgress?.('Query started')
+  const result = await client.query(paged ?? sql, values)
+  context.onProgress?.(`Fetched ${result.rows.length} rows`)
+  return withCostWarning(capSqlResult(result.rows, MAX_ROWS, offset, !!paged), costWarning)
 }
 
 // ─── Main Handler (dispatches tool calls) ───────────────────────────
@@ -280,15 +424,24 @@ export async function handlePostgresqlTool(
   toolName: string,
   args: Record<string, any>,
   config: PostgresqlConfig,
-  allowedTables?: string[]
+  context: ToolCallContext = {}
 ): Promise<ToolCallResult> {
+  if (context.signal?.aborted) {
+    return { success: false, error: CANCELLED_ERROR }
+  }
+
   const client = createPgClient(config)
+  let stopCancel = () => {}
 
+  const { allowedTables } = context
   const isTableAllowed = (tableName: string) =>
     !allowedTables || allowedTables.includes(tableName)
 
   try {
     await client.connect()
+    stopCancel = onAbort(context.signal, () => cancelQuery(config, client))
+    await beginReadOnly(client)
+    context.onProgress?.('Connected to database')
 
     switch (toolName) {
       case 'list_tables': {
@@ -317,10 +470,12 @@ export async function handlePostgresqlTool(
         if (!isTableAllowed(args.table_name)) {
           return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
         }
+        context.onProgress?.('Query started')
         const rows = await queryTable(client, args as QueryParams)
+        context.onProgress?.(`Fetched ${rows.length} rows`)
         return {
           success: true,
-          data: { table: args.table_name, row_count: rows.length, rows },
+          data: capTableRows(args.table_name, rows, MAX_ROWS),
         }
       }
 
@@ -328,20 +483,56 @@ export async function handlePostgresqlTool(
         if (!args.sql) {
           return { success: false, error: 'sql is required' }
         }
+        if (allowedTables) {
+          const access = checkTableAccess(args.sql, 'postgresql', allowedTables)
+          if (!access.safe) {
+            return { success: false, error: access.reason }
+          }
+        }
+        const params = prepareSqlParams(args.params, args.sql, 'postgresql')
+        if (!params.ok) {
+          return { success: false, error: params.error }
+        }
         try {
-          const result = await executeSql(client, args.sql)
+          const result = await executeSql(client, args.sql, params.params, context)
           return { success: true, data: result }
         } catch (err: any) {
           return { success: false, error: withSqlHint(err.message) }
         }
       }
 
+      case SCHEMA_RESOURCE_OP: {
+        const rows = await readSchema(client)
+        return { success: true, data: groupSchemaColumns(rows, allowedTables) }
+      }
+
+      case TABLE_RESOURCE_OP: {
+        if (!isTableAllowed(args.table_name)) {
+          return { success: false, error: `Access denied: table '${args.table_name}' is not in the allowed list` }
+        }
+        const columns = await describeTable(client, args.table_name)
+        const keys = await describeKeys(client, args.table_name)
+        const sample = await queryTable(client, { table_name: args.table_name, limit: RESOURCE_SAMPLE_ROWS })
+        return {
+          success: true,
+          data: {
+            table: args.table_name,
+            columns,
+            ...groupTableKeys(keys),
+            // Same cell and byte caps as query_table
+            sample: capSqlResult(sample, RESOURCE_SAMPLE_ROWS),
+          },
+        }
+      }
+
       default:
         return { success: false, error: `Unknown tool: ${toolName}` }
     }
   } catch (err: any) {
     return { success: false, error: err.message || 'Tool execution failed' }
   } finally {
+    stopCancel()
+    await rollback(client)
     try {
       await client.end()
     } catch {
@@ -349,3 +540,17 @@ export async function handlePostgresqlTool(
     }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export const POSTGRESQL_SERVICE: McpService<PostgresqlConfig> = {
+  label: 'PostgreSQL',
+  tools: POSTGRESQL_TOOLS,
+  buildConfig: (decrypted) => buildSqlConfig(decrypted, '5432'),
+  validateConfig: validateSqlConfig,
+  handleTool: handlePostgresqlTool,
+  listTables: listTablesViaTool(handlePostgresqlTool),
+  resources: true,
+  sqlDialect: 'postgresql',
+  costGuard: true,
+}
@@ -0,0 +1,117 @@
+/**
+ * MCP Service Registry
+ *
+ * Maps a credential's service_slug to the McpService that knows its tools,
+ * config shape and dispatcher. Used by the MCP gateway, test-connection
+ * and fetch-tables so every route resolves a service the same way.
+ *
+ * To add a Postgres-compatible provider, register it here with the
+ * PostgreSQL service and its own label (see neon below).
+ */
+
+import { decrypt } from '@/lib/encryption'
+import { SUPABASE_SERVICE } from '@/lib/mcp-handlers/supabase'
+import { POSTGRESQL_SERVICE } from '@/lib/mcp-handlers/postgresql'
+import { MYSQL_SERVICE } from '@/lib/mcp-handlers/mysql'
+import { MSSQL_SERVICE } from '@/lib/mcp-handlers/mssql'
+import { MIXPANEL_SERVICE } from '@/lib/mcp-handlers/mixpanel'
+import { STRIPE_SERVICE } from '@/lib/mcp-handlers/stripe'
+import type { McpService } from '@/lib/mcp-handlers/service'
+
+const SERVICES: Record<string, McpService> = {
+  supabase: SUPABASE_SERVICE,
+  postgresql: POSTGRESQL_SERVICE,
+  // Neon speaks the Postgres wire protocol — same handler, its own label.
+  neon: { ...POSTGRESQL_SERVICE, label: 'Neon' },
+  mysql: MYSQL_SERVICE,
+  mssql: MSSQL_SERVICE,
+  mixpanel: MIXPANEL_SERVICE,
+  stripe: STRIPE_SERVICE,
+}
+
+export function getMcpService(serviceSlug: string): McpService | null {
+  return SERVICES[serviceSlug] || null
+}
+
+// ─── Credential Config Resolution ───────────────────────────────────
+
+/**
+ * Decrypt every value in a stored credential config. Values that fail to
+ * decrypt are passed through as-is (non-sensitive fields are stored in
+ * plain text per the service's config_schema).
+ */
+export function decryptCredentialConfig(
+  config: Record<string, string>
+): Record<string, string> {
+  const decrypted: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(config || {})) {
+    if (typeof value !== 'string' || value.length === 0) continue
+    try {
+      decrypted[key] = decrypt(value)
+    } catch {
+      decrypted[key] = value
+    }
+  }
+
+  return decrypted
+}
+
+/** Parse allowed_tables from a decrypted config. Empty or malformed = no restriction. */
+export function parseAllowedTables(
+  decrypted: Record<string, string>
+): string[] | undefined {
+  if (!decrypted.allowed_tables) return undefined
+  try {
+    const parsed = JSON.parse(decrypted.allowed_tables)
+    if (Array.isArray(parsed) && parsed.length > 0) {
+      return parsed
+    }
+  } catch {
+    // Ignore malformed allowed_tables — treat as no restriction
+  }
+  return undefined
+}
+
+/**
+ * The tables a call through an endpoint may use: the credential's
+ * allowed_tables narrowed by the endpoint's. Undefined = every table.
+ * An endpoint listing only tables the credential excludes gets [],
+ * which allows none.
+ */
+export function scopeAllowedTables(
+  credentialTables: string[] | undefined,
+  endpointTables: string[] | null | undefined
+): string[] | undefined {
+  if (!Array.isArray(endpointTables) || endpointTables.length === 0) return credentialTables
+  if (!credentialTables) return endpointTables
+  return endpointTables.filter((table) => credentialTables.includes(table))
+}
+
+export type ResolvedCredential =
+  | { ok: true; config: any; allowedTables?: string[] }
+  | { ok: false; error: string }
+
+/**
+ * Decrypt a stored credential config and build/validate it for `service`.
+ * The error message lists the keys we did find, which is usually enough
+ * for support to spot a credential saved under an old field name.
+ */
+export function resolveCredentialConfig(
+  service: McpService,
+  storedConfig: Record<string, string>
+): ResolvedCredential {
+  const decrypted = decryptCredentialConfig(storedConfig)
+  const config = service.buildConfig(decrypted)
+  const problem = service.validateConfig(config)
+
+  if (problem) {
+    const availableKeys = Object.keys(decrypted).join(', ')
+    return {
+      ok: false,
+      error: `Incomplete ${service.label} credentials. Found keys: [${availableKeys}]. ${problem}`,
+    }
+  }
+
+  return { ok: true, config, allowedTables: parseAllowedTables(decrypted) }
+}
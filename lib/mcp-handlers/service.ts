@@ -0,0 +1,353 @@
+/**
+ * MCP Service Contract
+ *
+ * Every service under lib/mcp-handlers/ exports one McpService and is
+ * registered by slug in registry.ts. The MCP gateway, /api/test-connection
+ * and /api/fetch-tables all go through that registry, so adding a
+ * Postgres-compatible provider is one registry line instead of four
+ * route edits.
+ */
+
+import type { ToolCallResult } from '@/lib/mcp-handlers/supabase'
+import type { SqlDenylistOverrides } from '@/lib/sql-denylist'
+import type { SqlDialect } from '@/lib/sql-parser'
+import type { CostGuardSettings } from '@/lib/sql-cost-guard'
+import { RESULT_FORMAT_PROPERTY } from '@/lib/result-format'
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface McpTool {
+  name: string
+  description: string
+  inputSchema: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required: string[]
+  }
+  /**
+   * JSON Schema of the tool's structuredContent. Sent to clients on
+   * protocol 2025-06-18 and later.
+   */
+  outputSchema?: ToolOutputSchema
+  annotations?: ToolAnnotations
+}
+
+export interface ToolOutputSchema {
+  type: 'object'
+  properties: Record<string, unknown>
+  required?: string[]
+}
+
+export interface ToolAnnotations {
+  readOnlyHint?: boolean
+  openWorldHint?: boolean
+}
+
+/** Per-call settings from the credential and endpoint, passed through to handlers. */
+export interface ToolCallContext {
+  /**
+   * The credential's allowed_tables intersected with the endpoint's
+   * (scopeAllowedTables in registry.ts). Undefined = every table; [] = none.
+   */
+  allowedTables?: string[]
+  /** The endpoint's sql_denylist overrides for execute_sql. */
+  sqlDenylist?: SqlDenylistOverrides | null
+  /** The endpoint's EXPLAIN pre-flight thresholds for execute_sql. */
+  costGuard?: CostGuardSettings | null
+  /**
+   * Aborted when the MCP client cancels the call or disconnects. SQL
+   * handlers then cancel the running query on the database server.
+   */
+  signal?: AbortSignal
+  /**
+   * Reports a stage of the call (connected, query started, rows fetched).
+   * Set only when the client asked for progress notifications.
+   */
+  onProgress?: (message: string) => void
+  /**
+   * execute_sql only: rows of the result already returned, skipped
+   * before capping. Set when fetch_more re-runs the query for a page.
+   */
+  rowOffset?: number
+}
+
+export interface McpService<TConfig = any> {
+  /** Human-readable name used in error messages ("Incomplete Neon credentials"). */
+  label: string
+  tools: McpTool[]
+  /** Map a decrypted credential config onto the handler's config shape. */
+  buildConfig(decrypted: Record<string, string>): TConfig
+  /** Returns a "Need ..." message when required fields are missing, else null. */
+  validateConfig(config: TConfig): string | null
+  handleTool(
+    toolName: string,
+    args: Record<string, any>,
+    config: TConfig,
+    context?: ToolCallContext
+  ): Promise<ToolCallResult>
+  /** Table names exactly as list_tables returns them. Omitted for non-database services. */
+  listTables?(config: TConfig): Promise<string[]>
+  /**
+   * Cheap read-only call proving API credentials work, for services
+   * without tables. Returns a one-sentence summary for the dashboard.
+   */
+  testConnection?(config: TConfig): Promise<string>
+  /**
+   * handleTool implements SCHEMA_RESOURCE_OP and TABLE_RESOURCE_OP, so
+   * the gateway can expose the schema as MCP resources.
+   */
+  resources?: boolean
+  /**
+   * Dialect execute_sql is checked in, so the dashboard can validate the
+   * endpoint's sql_denylist. Omitted for services without SQL.
+   */
+  sqlDialect?: SqlDialect
+  /** execute_sql runs the EXPLAIN pre-flight in context.costGuard. */
+  costGuard?: boolean
+}
+
+// ─── Resource Operations ────────────────────────────────────────────
+
+/**
+ * Handler operations behind the MCP resources (lib/mcp-resources.ts).
+ * They go through handleTool for its connection, read-only transaction
+ * and allowed_tables handling, but aren't in `tools`, so the gateway
+ * never dispatches them from tools/call.
+ */
+export const SCHEMA_RESOURCE_OP = 'read_schema_resource'
+export const TABLE_RESOURCE_OP = 'read_table_resource'
+
+/** Sample rows included in a table resource. */
+export const RESOURCE_SAMPLE_ROWS = 5
+
+export interface SchemaColumnRow {
+  table_name: string
+  column_name: string
+  data_type: string
+  is_nullable: string
+}
+
+/**
+ * Group a catalog query's column rows (ordered by table, then column
+ * position) into the schema resource's shape.
+ */
+export function groupSchemaColumns(rows: SchemaColumnRow[], allowedTables?: string[]) {
+  const tables = new Map<string, { name: string; columns: { name: string; type: string; nullable: boolean }[] }>()
+  for (const row of rows) {
+    if (allowedTables && !allowedTables.includes(row.table_name)) continue
+    let table = tables.get(row.table_name)
+    if (!table) {
+      table = { name: row.table_name, columns: [] }
+      tables.set(row.table_name, table)
+    }
+    table.columns.push({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable === 'YES',
+    })
+  }
+  return { tables: [...tables.values()] }
+}
+
+export interface KeyColumnRow {
+  /** 'PRIMARY KEY' or 'FOREIGN KEY' */
+  constraint_type: string
+  column_name: string
+  /** Referenced table (foreign keys), as list_tables would name it. */
+  ref_table: string | null
+  ref_column: string | null
+}
+
+export function groupTableKeys(rows: KeyColumnRow[]) {
+  return {
+    primary_key: rows.filter((r) => r.constraint_type === 'PRIMARY KEY').map((r) => r.column_name),
+    foreign_keys: rows
+      .filter((r) => r.constraint_type === 'FOREIGN KEY')
+      .map((r) => ({ column: r.column_name, references: `${r.ref_table}.${r.ref_column}` })),
+  }
+}
+
+// ─── Structured output ──────────────────────────────────────────────
+
+/** Every SQL tool only reads, and only from the customer's own database. */
+export const READ_ONLY_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: false,
+}
+
+const ROWS_SCHEMA = {
+  type: 'array',
+  description: 'Result rows, one object per row keyed by column name',
+  items: { type: 'object', additionalProperties: true },
+}
+
+/**
+ * outputSchemas of the SQL tools, shared by every SQL service since
+ * their handlers return the same shapes.
+ */
+export const SQL_TOOL_OUTPUT_SCHEMAS: Record<
+  'list_tables' | 'describe_table' | 'query_table' | 'execute_sql',
+  ToolOutputSchema
+> = {
+  list_tables: {
+    type: 'object',
+    properties: {
+      tables: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['tables'],
+  },
+  describe_table: {
+    type: 'object',
+    properties: {
+      table: { type: 'string' },
+      columns: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            column_name: { type: 'string' },
+            data_type: { type: 'string' },
+            is_nullable: { type: 'string', enum: ['YES', 'NO'] },
+            column_default: {},
+          },
+          required: ['column_name', 'data_type', 'is_nullable'],
+        },
+      },
+    },
+    required: ['table', 'columns'],
+  },
+  query_table: {
+    type: 'object',
+    properties: {
+      table: { type: 'string' },
+      row_count: { type: 'integer' },
+      rows: ROWS_SCHEMA,
+      truncated: { type: 'boolean', description: 'Set when rows or values were cut' },
+      notice: { type: 'string', description: 'What was truncated and how to narrow the query' },
+    },
+    required: ['table', 'row_count', 'rows'],
+  },
+  execute_sql: {
+    type: 'object',
+    properties: {
+      row_count: { type: 'integer' },
+      rows: ROWS_SCHEMA,
+      truncated: { type: 'boolean', description: 'Set when rows or values were cut' },
+      notice: { type: 'string', description: 'What was truncated and how to narrow the query' },
+      cost_warning: { type: 'string', description: 'EXPLAIN pre-flight warning' },
+      next_cursor: { type: 'string', description: 'Pass to fetch_more for the next rows' },
+    },
+    required: ['row_count', 'rows'],
+  },
+}
+
+/**
+ * Next page of a truncated execute_sql result. The gateway resolves the
+ * cursor and re-runs the query through the service's execute_sql with
+ * ToolCallContext.rowOffset, so handlers never see this tool's name.
+ */
+export const FETCH_MORE_TOOL: McpTool = {
+  name: 'fetch_more',
+  description:
+    'Fetch the next rows of a truncated execute_sql result. Pass the next_cursor it returned; cursors expire after 10 minutes. Each page re-runs the query against the current data, so rows inserted or deleted in between can be skipped or repeated. Add ORDER BY on a unique key for stable pages.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cursor: {
+        type: 'string',
+        description: 'next_cursor from the previous execute_sql or fetch_more result',
+      },
+      format: RESULT_FORMAT_PROPERTY,
+    },
+    required: ['cursor'],
+  },
+  outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.execute_sql,
+  annotations: READ_ONLY_TOOL_ANNOTATIONS,
+}
+
+/**
+ * A tool result's data as structuredContent, which must be an object:
+ * bare row arrays (execute_sql's uncapped result) become
+ * { row_count, rows }.
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> {
+  if (Array.isArray(data)) return { row_count: data.length, rows: data }
+  if (data && typeof data === 'object') return data as Record<string, unknown>
+  return { value: data }
+}
+
+// ─── Cancellation ───────────────────────────────────────────────────
+
+export const CANCELLED_ERROR = 'Request cancelled by the client'
+
+/**
+ * Run `cancel` once when `signal` aborts (right away if it already has).
+ * Returns a cleanup that detaches the listener — call it in finally.
+ * Cancel failures are logged, not thrown: the query then simply runs to
+ * completion or its statement timeout.
+ */
+export function onAbort(
+  signal: AbortSignal | undefined,
+  cancel: () => Promise<void>
+): () => void {
+  if (!signal) return () => {}
+
+  const listener = () => {
+    cancel().catch((err) => console.error('Error cancelling query:', err))
+  }
+  if (signal.aborted) {
+    listener()
+    return () => {}
+  }
+  signal.addEventListener('abort', listener, { once: true })
+  return () => signal.removeEventListener('abort', listener)
+}
+
+// ─── Shared SQL Config ──────────────────────────────────────────────
+
+export interface SqlConnectionConfig {
+  host: string
+  port: string
+  database: string
+  user: string
+  password: string
+  ssl?: boolean | string
+}
+
+export function buildSqlConfig(
+  decrypted: Record<string, string>,
+  defaultPort: string
+): SqlConnectionConfig {
+  return {
+    host: decrypted.host,
+    port: decrypted.port || defaultPort,
+    database: decrypted.database,
+    user: decrypted.user,
+    password: decrypted.password,
+    ssl: decrypted.ssl,
+  }
+}
+
+export function validateSqlConfig(config: SqlConnectionConfig): string | null {
+  if (!config.host || !config.database || !config.user || !config.password) {
+    return 'Need host, database, user, and password.'
+  }
+  return null
+}
+
+/**
+ * Derive listTables from a handler's own list_tables tool so the table
+ * names shown in the dashboard's Table Access picker are the same names
+ * the handler checks allowed_tables against.
+ */
+export function listTablesViaTool<TConfig>(
+  handleTool: McpService<TConfig>['handleTool']
+): (config: TConfig) => Promise<string[]> {
+  return async (config) => {
+    const result = await handleTool('list_tables', {}, config)
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to list tables')
+    }
+    return result.data?.tables || []
+  }
+}
@@ -5,6 +5,8 @@
  * and executes read-only operations on payments, customers, etc.
  */
 
+import type { McpService } from '@/lib/mcp-handlers/service'
+
 // ─── Tool Definitions (MCP schema) ──────────────────────────────────
 
 export const STRIPE_TOOLS = [
@@ -418,3 +420,34 @@ export async function handleStripeTool(
     return { success: false, error: err.message || 'Tool execution failed' }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export interface StripeConfig {
+  secretKey: string
+}
+
+export const STRIPE_SERVICE: McpService<StripeConfig> = {
+  label: 'Stripe',
+  tools: STRIPE_TOOLS,
+  buildConfig: (decrypted) => ({
+    secretKey: decrypted.secret_key,
+  }),
+  validateConfig: (config) => {
+    if (!config.secretKey) return 'Need a secret key.'
+    // Publishable keys can't read anything server-side — catch the most
+    // common copy/paste mistake before it surfaces as a Stripe 401.
+    if (config.secretKey.startsWith('pk_')) {
+      return 'Need a secret (sk_) or restricted (rk_) key, not a publishable (pk_) key.'
+    }
+    return null
+  },
+  handleTool: (toolName, args, config) =>
+    handleStripeTool(toolName, args, config.secretKey),
+  testConnection: async (config) => {
+    const balance = await getBalance(config.secretKey)
+    return balance.livemode
+      ? 'I can see your Stripe account (live mode) and I\'m ready to look at customers, payments, and revenue.'
+      : 'I can see your Stripe account (test mode) and I\'m ready to look at customers, payments, and revenue.'
+  },
+}
@@ -6,12 +6,34 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
-import { sanitizeSql, sanitizeTableName, capSqlResult } from '@/lib/sql-sanitizer'
+import { sanitizeSql, pageSql, sanitizeTableName, capSqlResult, capTableRows, checkTableAccess } from '@/lib/sql-sanitizer'
+import type { SqlDenylistOverrides } from '@/lib/sql-denylist'
+import { RESULT_FORMAT_PROPERTY } from '@/lib/result-format'
+import {
+  listTablesViaTool,
+  SQL_TOOL_OUTPUT_SCHEMAS,
+  READ_ONLY_TOOL_ANNOTATIONS,
+  FETCH_MORE_TOOL,
+  type McpService,
+  type ToolCallContext,
+  type ToolOutputSchema,
+} from '@/lib/mcp-handlers/service'
 
 const MAX_ROWS = 500
 
 // ─── Tool Definitions (MCP schema) ──────────────────────────────────
 
+// Without the execute_readonly_query helper, execute_sql answers with
+// setup instructions ({ error, hint }) instead of rows.
+const SUPABASE_EXECUTE_SQL_OUTPUT_SCHEMA: ToolOutputSchema = {
+  type: 'object',
+  properties: {
+    ...SQL_TOOL_OUTPUT_SCHEMAS.execute_sql.properties,
+    error: { type: 'string' },
+    hint: { type: 'string' },
+  },
+}
+
 export const SUPABASE_TOOLS = [
   {
     name: 'list_tables',
@@ -21,6 +43,8 @@ export const SUPABASE_TOOLS = [
       properties: {},
       required: [],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.list_tables,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'describe_table',
@@ -35,6 +59,8 @@ export const SUPABASE_TOOLS = [
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.describe_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'query_table',
@@ -79,9 +105,12 @@ export const SUPABASE_TOOLS = [
           description: 'Sort direction',
           default: 'asc',
         },
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['table_name'],
     },
+    outputSchema: SQL_TOOL_OUTPUT_SCHEMAS.query_table,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
   {
     name: 'execute_sql',
@@ -94,10 +123,14 @@ export const SUPABASE_TOOLS = [
           type: 'string',
           description: 'SQL query to execute. Must be a SELECT statement.',
         },
+        format: RESULT_FORMAT_PROPERTY,
       },
       required: ['sql'],
     },
+    outputSchema: SUPABASE_EXECUTE_SQL_OUTPUT_SCHEMA,
+    annotations: READ_ONLY_TOOL_ANNOTATIONS,
   },
+  FETCH_MORE_TOOL,
 ]
 
 // ─── Customer Supabase Client ───────────────────────────────────────
@@ -294,14 +327,20 @@ async function queryTable(
 async function executeSql(
   supabaseUrl: string,
   apiKey: string,
-  sql: string
+  sql: string,
+  denylist?: SqlDenylistOverrides | null,
+  rowOffset?: number
 ): Promise<any> {
   // Sanitize first
-  const check = sanitizeSql(sql)
+  const check = sanitizeSql(sql, 'postgresql', denylist)
   if (!check.safe) {
     throw new Error(`SQL rejected: ${check.reason}`)
   }
 
+  // Read only this page
+  const offset = rowOffset ?? 0
+  const paged = pageSql(check.statement ?? sql, 'postgresql', offset, MAX_ROWS)
+
   // Use the Supabase REST API with a raw query via pg
   // The cleanest approach: use the /rest/v1/rpc endpoint if a function exists
   // Otherwise use the /pg endpoint (available with service role key)
@@ -313,11 +352,12 @@ async function executeSql(
       'Content-Type': 'application/json',
       Prefer: 'return=representation',
     },
-    body: JSON.stringify({ query_text: sql }),
+    // The helper wraps query_text in its own SELECT, so send it without a trailing semicolon
+    body: JSON.stringify({ query_text: paged ?? check.statement }),
   })
 
   if (response.ok) {
-    return capSqlResult(await response.json(), MAX_ROWS)
+    return capSqlResult(await response.json(), MAX_ROWS, offset, !!paged)
   }
 
   // If the RPC function doesn't exist, return a helpful message
@@ -345,8 +385,9 @@ export async function handleSupabaseTool(
   args: Record<string, any>,
   supabaseUrl: string,
   apiKey: string,
-  allowedTables?: string[]
+  context: ToolCallContext = {}
 ): Promise<ToolCallResult> {
+  const { allowedTables } = context
   const isTableAllowed = (tableName: string) =>
     !allowedTables || allowedTables.includes(tableName)
 
@@ -387,17 +428,28 @@ export async function handleSupabaseTool(
         const rows = await queryTable(supabaseUrl, apiKey, args as QueryParams)
         return {
           success: true,
-          data: { table: args.table_name, row_count: rows.length, rows },
+          data: capTableRows(args.table_name, rows, MAX_ROWS),
         }
       }
 
       case 'execute_sql': {
-        // Intentionally not gated by allowedTables — raw SQL is too hard to
-        // safely parse for table references. Matches the Postgres/MySQL handlers.
         if (!args.sql) {
           return { success: false, error: 'sql is required' }
         }
-        const result = await executeSql(supabaseUrl, apiKey, args.sql)
+        if (allowedTables) {
+          const access = checkTableAccess(args.sql, 'postgresql', allowedTables)
+          if (!access.safe) {
+            return { success: false, error: access.reason }
+          }
+        }
+        // execute_readonly_query takes only the query text
+        if (Array.isArray(args.params) && args.params.length > 0) {
+          return {
+            success: false,
+            error: 'params are not supported for Supabase connections. Use query_table filters for user-provided values.',
+          }
+        }
+        const result = await executeSql(supabaseUrl, apiKey, args.sql, context.sqlDenylist, context.rowOffset)
         return { success: true, data: result }
       }
 
@@ -408,3 +460,39 @@ export async function handleSupabaseTool(
     return { success: false, error: err.message || 'Tool execution failed' }
   }
 }
+
+// ─── Service Registration ───────────────────────────────────────────
+
+export interface SupabaseConfig {
+  url: string
+  apiKey: string
+}
+
+function handleSupabaseConfigTool(
+  toolName: string,
+  args: Record<string, any>,
+  config: SupabaseConfig,
+  context?: ToolCallContext
+): Promise<ToolCallResult> {
+  return handleSupabaseTool(toolName, args, config.url, config.apiKey, context)
+}
+
+export const SUPABASE_SERVICE: McpService<SupabaseConfig> = {
+  label: 'Supabase',
+  tools: SUPABASE_TOOLS,
+  // Older credentials predate the current form field names, so accept
+  // every key we've ever stored the URL and API key under.
+  buildConfig: (decrypted) => ({
+    url: decrypted.url || decrypted.supabase_url || decrypted.project_url,
+    apiKey:
+      decrypted.service_role_key ||
+      decrypted.api_key ||
+      decrypted.anon_key ||
+      decrypted.key,
+  }),
+  validateConfig: (config) =>
+    !config.url || !config.apiKey ? 'Need a URL and API key.' : null,
+  handleTool: handleSupabaseConfigTool,
+  listTables: listTablesViaTool(handleSupabaseConfigTool),
+  sqlDialect: 'postgresql',
+}
@@ -0,0 +1,62 @@
+/**
+ * MCP progress notifications for long-running tool calls
+ *
+ * When a tools/call carries `_meta.progressToken` and the client reads
+ * SSE, the gateway holds the response stream open and sends
+ * `notifications/progress` events before the result: the handler's
+ * stages (connected, query started, rows fetched) plus an elapsed-time
+ * tick while the query runs, so clients don't give up on a connector
+ * that has gone quiet during a multi-minute query.
+ */
+
+const PROGRESS_TICK_MS = 10_000
+
+export type ProgressToken = string | number
+
+export interface ProgressReporter {
+  /** Send a stage update (and use it as the label for later ticks). */
+  report: (message: string) => void
+  /** Stop the elapsed-time tick. Call once the tool call finishes. */
+  stop: () => void
+}
+
+/** The client's progress token from a request's params, if it sent one. */
+export function progressTokenOf(params: any): ProgressToken | undefined {
+  const token = params?._meta?.progressToken
+  return typeof token === 'string' || typeof token === 'number' ? token : undefined
+}
+
+/**
+ * Start reporting progress for one call. `send` writes a JSON-RPC
+ * message to the open SSE stream.
+ */
+export function startProgress(
+  token: ProgressToken,
+  send: (message: unknown) => void
+): ProgressReporter {
+  const startedAt = Date.now()
+  let progress = 0
+  let stage = 'Running'
+
+  const emit = (message: string) => {
+    progress += 1
+    send({
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: { progressToken: token, progress, message },
+    })
+  }
+
+  const tick = setInterval(() => {
+    const elapsed = Math.round((Date.now() - startedAt) / 1000)
+    emit(`${stage} — ${elapsed}s elapsed`)
+  }, PROGRESS_TICK_MS)
+
+  return {
+    report: (message) => {
+      stage = message
+      emit(message)
+    },
+    stop: () => clearInterval(tick),
+  }
+}
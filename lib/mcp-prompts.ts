@@ -0,0 +1,219 @@
+/**
+ * MCP prompts: per-endpoint prompt templates
+ *
+ * Org admins author templates in the dashboard (mcp_prompts, one set per
+ * endpoint) and the gateway serves them through prompts/list and
+ * prompts/get, so every teammate's client starts from the same vetted
+ * instructions instead of pasting them in by hand.
+ *
+ * Templates use {{argument}} placeholders. Arguments are typed; values
+ * arrive as strings from the client and are validated before rendering.
+ */
+
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { McpPrompt } from '@/types'
+
+export const PROMPT_ARGUMENT_TYPES = ['string', 'number', 'date', 'email'] as const
+
+export type PromptArgumentType = (typeof PROMPT_ARGUMENT_TYPES)[number]
+
+export interface PromptArgument {
+  name: string
+  description?: string
+  type: PromptArgumentType
+  required: boolean
+}
+
+export interface PromptInput {
+  name: string
+  title: string | null
+  description: string | null
+  template: string
+  arguments: PromptArgument[]
+}
+
+const PROMPT_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/
+const ARGUMENT_NAME_RE = /^[a-zA-Z_][a-zA-Z0-9_]{0,63}$/
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+const MAX_TITLE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 1000
+const MAX_TEMPLATE_LENGTH = 20_000
+const MAX_ARGUMENTS = 20
+
+const TYPE_HINTS: Record<PromptArgumentType, string> = {
+  string: 'text',
+  number: 'a number',
+  date: 'a date, YYYY-MM-DD',
+  email: 'an email address',
+}
+
+function optionalText(value: unknown, field: string, max: number): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'string') throw new Error(`${field} must be text`)
+  if (value.length > max) throw new Error(`${field} must be at most ${max} characters`)
+  return value.trim() || null
+}
+
+/**
+ * Validate a template definition from the dashboard. Every {{placeholder}}
+ * must be a declared argument, so a typo can't ship a prompt that never
+ * fills in.
+ */
+export function parsePromptInput(
+  input: any
+): { ok: true; prompt: PromptInput } | { ok: false; error: string } {
+  try {
+    const name = typeof input?.name === 'string' ? input.name.trim() : ''
+    if (!PROMPT_NAME_RE.test(name)) {
+      throw new Error(
+        'name must be 1-64 lowercase letters, numbers, dashes or underscores (e.g. weekly-revenue-review)'
+      )
+    }
+
+    const template = typeof input?.template === 'string' ? input.template : ''
+    if (!template.trim()) throw new Error('template is required')
+    if (template.length > MAX_TEMPLATE_LENGTH) {
+      throw new Error(`template must be at most ${MAX_TEMPLATE_LENGTH} characters`)
+    }
+
+    const rawArgs = input?.arguments ?? []
+    if (!Array.isArray(rawArgs)) throw new Error('arguments must be a list')
+    if (rawArgs.length > MAX_ARGUMENTS) throw new Error(`A prompt can have at most ${MAX_ARGUMENTS} arguments`)
+
+    const args: PromptArgument[] = rawArgs.map((arg: any) => {
+      if (!ARGUMENT_NAME_RE.test(arg?.name || '')) {
+        throw new Error(
+          `Invalid argument name '${arg?.name ?? ''}': use letters, numbers and underscores`
+        )
+      }
+      const type = arg.type ?? 'string'
+      if (!PROMPT_ARGUMENT_TYPES.includes(type)) {
+        throw new Error(`Argument '${arg.name}' has unknown type '${type}'`)
+      }
+      const description = optionalText(arg.description, `Description of '${arg.name}'`, MAX_DESCRIPTION_LENGTH)
+      return { name: arg.name, type, required: !!arg.required, ...(description ? { description } : {}) }
+    })
+
+    const declared = new Set<string>()
+    for (const arg of args) {
+      if (declared.has(arg.name)) throw new Error(`Argument '${arg.name}' is declared twice`)
+      declared.add(arg.name)
+    }
+    for (const match of template.matchAll(PLACEHOLDER_RE)) {
+      if (!declared.has(match[1])) {
+        throw new Error(`Template uses {{${match[1]}}} but no argument with that name is declared`)
+      }
+    }
+
+    return {
+      ok: true,
+      prompt: {
+        name,
+        title: optionalText(input.title, 'title', MAX_TITLE_LENGTH),
+        description: optionalText(input.description, 'description', MAX_DESCRIPTION_LENGTH),
+        template,
+        arguments: args,
+      },
+    }
+  } catch (err: any) {
+    return { ok: false, error: err.message }
+  }
+}
+
+// ─── MCP shapes ─────────────────────────────────────────────────────
+
+/** prompts/list entry. The argument's type is folded into its description. */
+export function toMcpPrompt(prompt: McpPrompt) {
+  return {
+    name: prompt.name,
+    ...(prompt.title ? { title: prompt.title } : {}),
+    ...(prompt.description ? { description: prompt.description } : {}),
+    arguments: prompt.arguments.map((arg) => ({
+      name: arg.name,
+      description: arg.description
+        ? `${arg.description} (${TYPE_HINTS[arg.type]})`
+        : `${arg.name} (${TYPE_HINTS[arg.type]})`,
+      required: arg.required,
+    })),
+  }
+}
+
+function checkArgumentValue(arg: PromptArgument, value: string): string | null {
+  switch (arg.type) {
+    case 'number':
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? null : 'must be a number'
+    case 'date':
+      return DATE_RE.test(value) && !Number.isNaN(Date.parse(value)) ? null : 'must be a date (YYYY-MM-DD)'
+    case 'email':
+      return EMAIL_RE.test(value) ? null : 'must be an email address'
+    default:
+      return null
+  }
+}
+
+/**
+ * prompts/get result: the template filled in with `values`. Returns an
+ * error for missing required arguments or values of the wrong type.
+ */
+export function renderPrompt(
+  prompt: McpPrompt,
+  values: Record<string, unknown> | undefined
+): { ok: true; result: unknown } | { ok: false; error: string } {
+  const filled: Record<string, string> = {}
+
+  for (const arg of prompt.arguments) {
+    const raw = values?.[arg.name]
+    const value = raw === undefined || raw === null ? '' : String(raw)
+    if (!value) {
+      if (arg.required) return { ok: false, error: `Missing required argument: ${arg.name}` }
+      filled[arg.name] = ''
+      continue
+    }
+    const problem = checkArgumentValue(arg, value)
+    if (problem) return { ok: false, error: `Argument '${arg.name}' ${problem}` }
+    filled[arg.name] = value
+  }
+
+  const text = prompt.template.replace(PLACEHOLDER_RE, (_, name: string) => filled[name] ?? '')
+
+  return {
+    ok: true,
+    result: {
+      ...(prompt.description ? { description: prompt.description } : {}),
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    },
+  }
+}
+
+// ─── Lookup ─────────────────────────────────────────────────────────
+
+export async function listEndpointPrompts(endpointId: string): Promise<McpPrompt[]> {
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('mcp_prompts')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error loading MCP prompts:', error)
+    return []
+  }
+
+  return (data || []) as McpPrompt[]
+}
+
+export async function getEndpointPrompt(endpointId: string, name: string): Promise<McpPrompt | null> {
+  const admin = createAdminClient()
+  const { data } = await admin
+    .from('mcp_prompts')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('name', name)
+    .maybeSingle()
+
+  return (data as McpPrompt | null) ?? null
+}
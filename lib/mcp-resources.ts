@@ -0,0 +1,86 @@
+/**
+ * MCP resources: the endpoint's database schema
+ *
+ *   synra://schema         every table the endpoint can see, with columns
+ *   synra://table/{name}   one table's columns, primary/foreign keys and
+ *                          a few sample rows ({name} as list_tables
+ *                          returns it — schema.table outside the
+ *                          default schema)
+ *
+ * Clients that pin resources into context get the schema without
+ * spending tool calls on list_tables / describe_table each conversation.
+ * Both are read through the service handler (SCHEMA_RESOURCE_OP /
+ * TABLE_RESOURCE_OP), so allowed_tables applies exactly as for tools.
+ * The gateway serves them only when the endpoint's allowed_tools has
+ * describe_table (schema) and also query_table (tables).
+ */
+
+import { SCHEMA_RESOURCE_OP, TABLE_RESOURCE_OP } from '@/lib/mcp-handlers/service'
+
+const SCHEMA_URI = 'synra://schema'
+const TABLE_URI_PREFIX = 'synra://table/'
+
+const JSON_MIME_TYPE = 'application/json'
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${TABLE_URI_PREFIX}{name}`,
+    name: 'table',
+    title: 'Table',
+    description:
+      'Columns, primary and foreign keys, and sample rows for one table. {name} is a table name from list_tables (schema.table outside the default schema).',
+    mimeType: JSON_MIME_TYPE,
+  },
+]
+
+export function tableResourceUri(tableName: string): string {
+  return `${TABLE_URI_PREFIX}${encodeURIComponent(tableName)}`
+}
+
+/** resources/list entries: the schema plus one resource per table. */
+export function listResourceEntries(tables: string[]) {
+  return [
+    {
+      uri: SCHEMA_URI,
+      name: 'schema',
+      title: 'Database schema',
+      description: 'Every table this endpoint can access, with its columns and types.',
+      mimeType: JSON_MIME_TYPE,
+    },
+    ...tables.map((table) => ({
+      uri: tableResourceUri(table),
+      name: table,
+      title: table,
+      description: `Columns, keys and sample rows of ${table}.`,
+      mimeType: JSON_MIME_TYPE,
+    })),
+  ]
+}
+
+/**
+ * Map a resource URI to the handler operation that reads it, or null
+ * when the URI isn't one of ours.
+ */
+export function resourceOperation(
+  uri: unknown
+): { op: string; args: Record<string, any> } | null {
+  if (typeof uri !== 'string') return null
+  if (uri === SCHEMA_URI) return { op: SCHEMA_RESOURCE_OP, args: {} }
+  if (uri.startsWith(TABLE_URI_PREFIX)) {
+    let tableName: string
+    try {
+      tableName = decodeURIComponent(uri.slice(TABLE_URI_PREFIX.length))
+    } catch {
+      return null
+    }
+    return tableName ? { op: TABLE_RESOURCE_OP, args: { table_name: tableName } } : null
+  }
+  return null
+}
+
+/** resources/read result for a handler operation's data. */
+export function resourceContents(uri: string, data: unknown) {
+  return {
+    contents: [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * MCP sessions (Streamable HTTP `Mcp-Session-Id`)
+ *
+ * `initialize` mints a session and returns its ID in the Mcp-Session-Id
+ * header; clients echo it on every later request and end it with DELETE.
+ * Each session row records the negotiated protocol version and the
+ * client's `clientInfo`, and usage_logs rows carry the session ID, so
+ * calls can be attributed to the client app that made them.
+ *
+ * Validated sessions are cached in memory together with their endpoint
+ * row and decrypted credential config, so follow-up requests skip the
+ * endpoint lookup and the PBKDF2 decryption. The cache TTL is short so
+ * deactivating an endpoint or editing a credential still takes effect
+ * within a minute. Same single-process assumption as
+ * lib/endpoint-rate-limit.ts: a cache miss just falls back to the DB.
+ */
+
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { ResolvedCredential } from '@/lib/mcp-handlers/registry'
+import { matchEndpointUrl } from '@/lib/endpoint-urls'
+import type { McpSession } from '@/types'
+
+/** Sessions idle for longer than this are treated as expired. */
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000
+
+const CACHE_TTL_MS = 60_000
+
+/** Clients may send anything; keep only what's useful for attribution. */
+const MAX_CLIENT_FIELD_LENGTH = 200
+
+interface CachedSession {
+  session: McpSession
+  endpoint: any
+  credential?: ResolvedCredential
+  expiresAt: number
+}
+
+const sessionCache = new Map<string, CachedSession>()
+
+function clientField(value: unknown): string | null {
+  return typeof value === 'string' && value.trim()
+    ? value.trim().slice(0, MAX_CLIENT_FIELD_LENGTH)
+    : null
+}
+
+/**
+ * Create a session for an `initialize` request. Returns null if the
+ * insert fails — the gateway then answers without a session header and
+ * the client carries on session-less.
+ */
+export async function createSession(
+  endpoint: { id: string; organization_id: string },
+  protocolVersion: string,
+  clientInfo: unknown
+): Promise<McpSession | null> {
+  const info =
+    clientInfo && typeof clientInfo === 'object' && !Array.isArray(clientInfo)
+      ? (clientInfo as Record<string, any>)
+      : null
+
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('mcp_sessions')
+    .insert({
+      id: crypto.randomUUID(),
+      endpoint_id: endpoint.id,
+      organization_id: endpoint.organization_id,
+      protocol_version: protocolVersion,
+      client_name: clientField(info?.name),
+      client_version: clientField(info?.version),
+      client_info: info,
+    })
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error('Error creating MCP session:', error)
+    return null
+  }
+
+  return data as McpSession
+}
+
+/**
+ * Resolve a session ID sent on `endpointPath`, with its endpoint row
+ * (including credentials). Returns null for unknown, terminated or
+ * expired sessions, and for sessions minted on a different endpoint.
+ */
+export async function resolveSession(
+  sessionId: string,
+  endpointPath: string
+): Promise<{ session: McpSession; endpoint: any } | null> {
+  const now = Date.now()
+  const cached = sessionCache.get(sessionId)
+  if (cached && cached.expiresAt > now) {
+    return matchEndpointUrl(cached.endpoint, endpointPath)
+      ? { session: cached.session, endpoint: cached.endpoint }
+      : null
+  }
+  sessionCache.delete(sessionId)
+
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('mcp_sessions')
+    .select('*, mcp_endpoints(*, credentials(*))')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (error || !data) return null
+
+  const { mcp_endpoints: endpoint, ...session } = data as McpSession & { mcp_endpoints: any }
+  if (
+    !endpoint ||
+    !matchEndpointUrl(endpoint, endpointPath) ||
+    session.terminated_at ||
+    now - new Date(session.last_seen_at).getTime() > SESSION_IDLE_TTL_MS
+  ) {
+    return null
+  }
+
+  // Refreshed at most once per cache period, not on every request.
+  admin
+    .from('mcp_sessions')
+    .update({ last_seen_at: new Date(now).toISOString() })
+    .eq('id', sessionId)
+    .then(() => {}) // fire and forget
+
+  sessionCache.set(sessionId, { session, endpoint, expiresAt: now + CACHE_TTL_MS })
+  return { session, endpoint }
+}
+
+/**
+ * Decrypted credential config for a session, computed by `resolve` on
+ * the first tool call and reused until the cache entry expires. Failed
+ * resolutions aren't cached.
+ */
+export function sessionCredential(
+  sessionId: string | null,
+  resolve: () => ResolvedCredential
+): ResolvedCredential {
+  const cached = sessionId ? sessionCache.get(sessionId) : undefined
+  if (cached?.credential && cached.expiresAt > Date.now()) return cached.credential
+
+  const resolved = resolve()
+  if (cached && resolved.ok) cached.credential = resolved
+  return resolved
+}
+
+/**
+ * Terminate a session (client DELETE). Returns false when there was no
+ * live session with that ID on this endpoint.
+ */
+export async function terminateSession(sessionId: string, endpointId: string): Promise<boolean> {
+  sessionCache.delete(sessionId)
+
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('mcp_sessions')
+    .update({ terminated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('endpoint_id', endpointId)
+    .is('terminated_at', null)
+    .select('id')
+
+  if (error) {
+    console.error('Error terminating MCP session:', error)
+    return false
+  }
+
+  return !!data && data.length > 0
+}
+
+/**
+ * Drop the cached sessions of an endpoint so a dashboard change (pause,
+ * tool or table scope, delete) applies to its next request rather than
+ * after the cache TTL.
+ */
+export function evictEndpointSessions(endpointId: string): void {
+  for (const [sessionId, cached] of sessionCache) {
+    if (cached.endpoint?.id === endpointId) sessionCache.delete(sessionId)
+  }
+}
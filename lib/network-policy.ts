@@ -0,0 +1,234 @@
+/**
+ * Network Policy — per-endpoint IP, origin and user-agent allowlists
+ *
+ * mcp_endpoints.network_policy:
+ *   { "allowed_cidrs": [...], "allowed_origins": [...], "allowed_user_agents": [...] }
+ * Each list is optional; an empty or missing list allows everything.
+ *   allowed_cidrs        IPv4/IPv6 addresses or CIDR ranges
+ *   allowed_origins      exact browser origins (https://app.example.com).
+ *                        Requests without an Origin header (server-side
+ *                        clients) aren't affected.
+ *   allowed_user_agents  case-insensitive substrings of the User-Agent
+ *
+ * The gateway checks the policy right after the endpoint lookup, before
+ * bearer auth or credential decryption, and logs every denial.
+ *
+ * The client IP comes from X-Forwarded-For. Proxies append to it, so the
+ * entries are read right to left, skipping the proxies listed in
+ * TRUSTED_PROXY_CIDRS (comma-separated); the first other address is the
+ * client's. With no trusted proxies configured the right-most entry is
+ * used — the address the edge proxy (Railway) saw, which a client can't
+ * forge.
+ */
+
+import { isIP } from 'net'
+
+export interface NetworkPolicy {
+  allowed_cidrs?: string[]
+  allowed_origins?: string[]
+  allowed_user_agents?: string[]
+}
+
+const MAX_POLICY_ENTRIES = 100
+const MAX_ENTRY_LENGTH = 300
+
+// ─── Addresses ──────────────────────────────────────────────────────
+
+interface ParsedAddress {
+  version: 4 | 6
+  value: bigint
+}
+
+interface Cidr extends ParsedAddress {
+  prefix: number
+}
+
+function parseIPv4(text: string): bigint {
+  return text.split('.').reduce((acc, octet) => (acc << BigInt(8)) | BigInt(Number(octet)), BigInt(0))
+}
+
+function parseIPv6(text: string): bigint {
+  // A trailing dotted quad (::ffff:1.2.3.4) is the last 32 bits
+  let tail: bigint | null = null
+  const lastColon = text.lastIndexOf(':')
+  if (text.includes('.', lastColon)) {
+    tail = parseIPv4(text.slice(lastColon + 1))
+    text = `${text.slice(0, lastColon + 1)}0:0`
+  }
+
+  const [head, rest] = text.split('::')
+  const headGroups = head ? head.split(':') : []
+  const restGroups = rest !== undefined && rest ? rest.split(':') : []
+  const missing = 8 - headGroups.length - restGroups.length
+  const groups = rest !== undefined
+    ? [...headGroups, ...Array(missing).fill('0'), ...restGroups]
+    : headGroups
+
+  let value = groups.reduce((acc, group) => (acc << BigInt(16)) | BigInt(parseInt(group, 16)), BigInt(0))
+  if (tail !== null) value = (value & ~BigInt(0xffffffff)) | tail
+  return value
+}
+
+const IPV4_MAPPED_PREFIX = BigInt(0xffff) << BigInt(32)
+
+/** An address as a number; IPv4-mapped IPv6 addresses become IPv4. */
+function parseAddress(text: string): ParsedAddress | null {
+  const address = text.trim().replace(/^\[|\]$/g, '').replace(/%.*$/, '')
+  const version = isIP(address)
+  if (version === 4) return { version: 4, value: parseIPv4(address) }
+  if (version !== 6) return null
+
+  const value = parseIPv6(address)
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return { version: 4, value: value - IPV4_MAPPED_PREFIX }
+  }
+  return { version: 6, value }
+}
+
+function parseCidr(text: string): Cidr | null {
+  const [addressText, prefixText, extra] = text.trim().split('/')
+  if (extra !== undefined) return null
+  const address = parseAddress(addressText)
+  if (!address) return null
+
+  const bits = address.version === 4 ? 32 : 128
+  if (prefixText === undefined) return { ...address, prefix: bits }
+  if (!/^\d{1,3}$/.test(prefixText) || Number(prefixText) > bits) return null
+  return { ...address, prefix: Number(prefixText) }
+}
+
+function cidrContains(cidr: Cidr, address: ParsedAddress): boolean {
+  if (cidr.version !== address.version) return false
+  const shift = BigInt((cidr.version === 4 ? 32 : 128) - cidr.prefix)
+  return cidr.value >> shift === address.value >> shift
+}
+
+// Parsed once: env vars don't change while the process runs
+let trustedProxies: Cidr[] | null = null
+
+function getTrustedProxies(): Cidr[] {
+  trustedProxies ??= (process.env.TRUSTED_PROXY_CIDRS || '')
+    .split(',')
+    .filter((entry) => entry.trim())
+    .map((entry) => {
+      const cidr = parseCidr(entry)
+      if (!cidr) console.warn(`Ignoring invalid TRUSTED_PROXY_CIDRS entry: ${entry}`)
+      return cidr
+    })
+    .filter((cidr): cidr is Cidr => cidr !== null)
+  return trustedProxies
+}
+
+/** The client's IP address from X-Forwarded-For / X-Real-IP, or null. */
+export function clientIp(headers: Headers): string | null {
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  const proxies = getTrustedProxies()
+  for (let i = forwarded.length - 1; i >= 0; i--) {
+    const address = parseAddress(forwarded[i])
+    if (!address) return null
+    if (!proxies.some((proxy) => cidrContains(proxy, address))) return forwarded[i]
+  }
+
+  return headers.get('x-real-ip')?.trim() || null
+}
+
+// ─── Policy ─────────────────────────────────────────────────────────
+
+function nonEmpty(list: string[] | undefined): list is string[] {
+  return Array.isArray(list) && list.length > 0
+}
+
+/** Normalize an origin the way browsers send it: scheme://host[:port], lowercase. */
+function normalizeOrigin(origin: string): string | null {
+  try {
+    const url = new URL(origin)
+    if (!['http:', 'https:'].includes(url.protocol)) return null
+    return url.origin.toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Whether a browser Origin may call the endpoint. Always true when the
+ * endpoint doesn't restrict origins or the request has no Origin.
+ */
+export function isOriginAllowed(policy: NetworkPolicy | null, origin: string | null): boolean {
+  if (!origin || !nonEmpty(policy?.allowed_origins)) return true
+  const normalized = normalizeOrigin(origin)
+  return !!normalized && policy.allowed_origins.some((allowed) => normalizeOrigin(allowed) === normalized)
+}
+
+/** Check a request against the endpoint's policy. `reason` is for logs and the 403 body. */
+export function checkNetworkPolicy(
+  policy: NetworkPolicy | null,
+  request: { ip: string | null; origin: string | null; userAgent: string | null }
+): { allowed: true } | { allowed: false; reason: string } {
+  if (!policy) return { allowed: true }
+
+  if (nonEmpty(policy.allowed_cidrs)) {
+    const address = request.ip ? parseAddress(request.ip) : null
+    const ranges = policy.allowed_cidrs.map(parseCidr).filter((cidr): cidr is Cidr => cidr !== null)
+    if (!address || !ranges.some((cidr) => cidrContains(cidr, address))) {
+      return { allowed: false, reason: `IP address ${request.ip ?? '(unknown)'} is not allowed` }
+    }
+  }
+
+  if (!isOriginAllowed(policy, request.origin)) {
+    return { allowed: false, reason: `Origin ${request.origin} is not allowed` }
+  }
+
+  if (nonEmpty(policy.allowed_user_agents)) {
+    const userAgent = (request.userAgent || '').toLowerCase()
+    if (!policy.allowed_user_agents.some((allowed) => userAgent.includes(allowed.toLowerCase()))) {
+      return { allowed: false, reason: 'User-Agent is not allowed' }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/** Validate a network_policy from the dashboard. Empty lists are dropped; an empty policy is null. */
+export function parseNetworkPolicy(
+  input: any
+): { ok: true; policy: NetworkPolicy | null } | { ok: false; error: string } {
+  if (input === null) return { ok: true, policy: null }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'network_policy must be an object or null' }
+  }
+
+  const policy: NetworkPolicy = {}
+  const fields = ['allowed_cidrs', 'allowed_origins', 'allowed_user_agents'] as const
+  for (const field of fields) {
+    const raw = input[field] ?? []
+    if (!Array.isArray(raw) || raw.some((entry) => typeof entry !== 'string')) {
+      return { ok: false, error: `${field} must be a list of strings` }
+    }
+    let entries = [...new Set(raw.map((entry: string) => entry.trim()).filter(Boolean))]
+    if (entries.length > MAX_POLICY_ENTRIES) {
+      return { ok: false, error: `${field} can have at most ${MAX_POLICY_ENTRIES} entries` }
+    }
+    const tooLong = entries.find((entry) => entry.length > MAX_ENTRY_LENGTH)
+    if (tooLong) {
+      return { ok: false, error: `${field} entries must be at most ${MAX_ENTRY_LENGTH} characters` }
+    }
+
+    if (field === 'allowed_cidrs') {
+      const invalid = entries.find((entry) => !parseCidr(entry))
+      if (invalid) return { ok: false, error: `Invalid IP address or CIDR range: ${invalid}` }
+    }
+    if (field === 'allowed_origins') {
+      const invalid = entries.find((entry) => !normalizeOrigin(entry))
+      if (invalid) return { ok: false, error: `Invalid origin: ${invalid} (use e.g. https://app.example.com)` }
+      entries = [...new Set(entries.map((entry) => normalizeOrigin(entry) as string))]
+    }
+
+    if (entries.length > 0) policy[field] = entries
+  }
+
+  return { ok: true, policy: Object.keys(policy).length > 0 ? policy : null }
+}
@@ -0,0 +1,542 @@
+/**
+ * OAuth 2.1 for MCP endpoints (MCP authorization spec)
+ *
+ * Endpoints with oauth_required answer unauthenticated requests with 401
+ * and a WWW-Authenticate challenge pointing at their protected-resource
+ * metadata (RFC 9728). From there the client finds Synra's authorization
+ * server metadata (RFC 8414), registers itself (RFC 7591), and runs the
+ * authorization-code flow with PKCE: the user signs in to Synra as usual,
+ * approves the client on /oauth/authorize, and the client exchanges the
+ * code for a bearer token.
+ *
+ * A token belongs to a Synra user and their organization. When the
+ * client sent a `resource` (RFC 8707) it is also bound to that one
+ * endpoint; otherwise it works for every endpoint of the organization.
+ * Access tokens live an hour; refresh tokens rotate on use, and
+ * refreshing re-checks that the user is still a member.
+ *
+ * Endpoints without oauth_required keep URL-only access.
+ */
+
+import crypto from 'crypto'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { endpointUrlFilter, matchEndpointUrl } from '@/lib/endpoint-urls'
+import type { OAuthClient } from '@/types'
+
+export const OAUTH_SCOPE = 'mcp'
+
+const ACCESS_TOKEN_TTL_S = 60 * 60
+const REFRESH_TOKEN_TTL_S = 30 * 24 * 60 * 60
+const AUTHORIZATION_CODE_TTL_S = 10 * 60
+
+/** Validated access tokens are cached this long; revocation takes effect within it. */
+const TOKEN_CACHE_TTL_MS = 60_000
+
+const MAX_REDIRECT_URIS = 10
+const MAX_CLIENT_FIELD_LENGTH = 200
+
+/** The metadata, registration and token routes are called from browser-based clients too. */
+export const OAUTH_CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Mcp-Protocol-Version',
+  'Access-Control-Max-Age': '86400',
+}
+
+/** RFC 6749 error response. */
+export interface OAuthError {
+  error: string
+  error_description: string
+}
+
+function oauthError(error: string, description: string): { ok: false } & OAuthError {
+  return { ok: false, error, error_description: description }
+}
+
+// ─── URLs & metadata ────────────────────────────────────────────────
+
+/** The MCP endpoint's URL: the resource tokens are issued for. */
+export function mcpResourceUrl(origin: string, endpointPath: string): string {
+  return `${origin}/api/mcp/${endpointPath}`
+}
+
+export function protectedResourceMetadataUrl(origin: string, endpointPath: string): string {
+  return `${origin}/.well-known/oauth-protected-resource/api/mcp/${endpointPath}`
+}
+
+/** RFC 9728 metadata for one endpoint. */
+export function protectedResourceMetadata(origin: string, endpointPath: string) {
+  return {
+    resource: mcpResourceUrl(origin, endpointPath),
+    authorization_servers: [origin],
+    scopes_supported: [OAUTH_SCOPE],
+    bearer_methods_supported: ['header'],
+    resource_name: 'Synra MCP endpoint',
+  }
+}
+
+/** RFC 8414 metadata; Synra itself is the authorization server. */
+export function authorizationServerMetadata(origin: string) {
+  return {
+    issuer: origin,
+    authorization_endpoint: `${origin}/oauth/authorize`,
+    token_endpoint: `${origin}/api/oauth/token`,
+    registration_endpoint: `${origin}/api/oauth/register`,
+    scopes_supported: [OAUTH_SCOPE],
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none'],
+  }
+}
+
+/** WWW-Authenticate value for a 401 from an OAuth-protected endpoint. */
+export function bearerChallenge(origin: string, endpointPath: string, error?: string): string {
+  const parts = [`resource_metadata="${protectedResourceMetadataUrl(origin, endpointPath)}"`]
+  if (error) parts.push(`error="${error}"`)
+  return `Bearer ${parts.join(', ')}`
+}
+
+// ─── Secrets ────────────────────────────────────────────────────────
+
+function newSecret(prefix: string): string {
+  return `${prefix}${crypto.randomBytes(32).toString('base64url')}`
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex')
+}
+
+function pkceMatches(verifier: string, challenge: string): boolean {
+  const computed = crypto.createHash('sha256').update(verifier).digest('base64url')
+  return (
+    computed.length === challenge.length &&
+    crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(challenge))
+  )
+}
+
+function expiresIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString()
+}
+
+// ─── Dynamic client registration ────────────────────────────────────
+
+/**
+ * https anywhere, http only on loopback (desktop clients listening on a
+ * local port), or a private-use scheme like cursor:// for native apps.
+ */
+function isAllowedRedirectUri(uri: string): boolean {
+  let url: URL
+  try {
+    url = new URL(uri)
+  } catch {
+    return false
+  }
+  if (url.hash) return false
+  if (url.protocol === 'https:') return true
+  if (url.protocol === 'http:') {
+    return ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)
+  }
+  return !['javascript:', 'data:', 'file:', 'vbscript:'].includes(url.protocol)
+}
+
+function clientField(value: unknown): string | null {
+  return typeof value === 'string' && value.trim()
+    ? value.trim().slice(0, MAX_CLIENT_FIELD_LENGTH)
+    : null
+}
+
+/** RFC 7591 registration. Every client is public (PKCE, no secret). */
+export async function registerClient(
+  body: any
+): Promise<{ ok: true; client: Record<string, unknown> } | ({ ok: false } & OAuthError)> {
+  const redirectUris = body?.redirect_uris
+  if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+    return oauthError('invalid_redirect_uri', 'redirect_uris must be a non-empty array')
+  }
+  if (redirectUris.length > MAX_REDIRECT_URIS) {
+    return oauthError('invalid_redirect_uri', `At most ${MAX_REDIRECT_URIS} redirect_uris are allowed`)
+  }
+  for (const uri of redirectUris) {
+    if (typeof uri !== 'string' || !isAllowedRedirectUri(uri)) {
+      return oauthError(
+        'invalid_redirect_uri',
+        `Redirect URI not allowed: ${String(uri)}. Use https, http on localhost, or an app-specific scheme.`
+      )
+    }
+  }
+
+  const grantTypes = body?.grant_types ?? ['authorization_code', 'refresh_token']
+  if (!Array.isArray(grantTypes) || grantTypes.some((g) => !['authorization_code', 'refresh_token'].includes(g))) {
+    return oauthError('invalid_client_metadata', 'Only authorization_code and refresh_token grants are supported')
+  }
+
+  const client = {
+    id: crypto.randomUUID(),
+    client_name: clientField(body?.client_name),
+    client_uri: clientField(body?.client_uri),
+    redirect_uris: redirectUris,
+  }
+
+  const admin = createAdminClient()
+  const { data, error } = await admin.from('oauth_clients').insert(client).select().single()
+  if (error || !data) {
+    console.error('Error registering OAuth client:', error)
+    return oauthError('server_error', 'Failed to register client')
+  }
+
+  return {
+    ok: true,
+    client: {
+      client_id: data.id,
+      client_id_issued_at: Math.floor(new Date(data.created_at).getTime() / 1000),
+      ...(data.client_name ? { client_name: data.client_name } : {}),
+      ...(data.client_uri ? { client_uri: data.client_uri } : {}),
+      redirect_uris: data.redirect_uris,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+      scope: OAUTH_SCOPE,
+    },
+  }
+}
+
+// ─── Authorization requests ─────────────────────────────────────────
+
+export interface AuthorizeParams {
+  client_id: string
+  redirect_uri: string
+  response_type: string
+  code_challenge: string
+  code_challenge_method: string
+  state: string
+  resource: string
+  scope: string
+}
+
+const AUTHORIZE_PARAM_NAMES: (keyof AuthorizeParams)[] = [
+  'client_id',
+  'redirect_uri',
+  'response_type',
+  'code_challenge',
+  'code_challenge_method',
+  'state',
+  'resource',
+  'scope',
+]
+
+/** The authorization request's parameters from a query string or JSON body. */
+export function readAuthorizeParams(source: URLSearchParams | Record<string, unknown>): AuthorizeParams {
+  const get = (name: string) => {
+    const value = source instanceof URLSearchParams ? source.get(name) : source[name]
+    return typeof value === 'string' ? value : ''
+  }
+  return Object.fromEntries(AUTHORIZE_PARAM_NAMES.map((name) => [name, get(name)])) as unknown as AuthorizeParams
+}
+
+export type AuthorizeCheck =
+  | { ok: true; client: OAuthClient; endpoint: { id: string; organization_id: string; endpoint_url: string } | null }
+  /** `redirect` is false when the client or redirect_uri can't be trusted: show the error instead. */
+  | ({ ok: false; redirect: boolean } & OAuthError)
+
+/**
+ * Validate an authorization request for a signed-in member of
+ * `organizationId`. A `resource` must be one of that organization's
+ * endpoints on this origin.
+ */
+export async function checkAuthorizeRequest(
+  params: AuthorizeParams,
+  origin: string,
+  organizationId: string
+): Promise<AuthorizeCheck> {
+  const admin = createAdminClient()
+
+  const { data: client } = params.client_id
+    ? await admin.from('oauth_clients').select('*').eq('id', params.client_id).maybeSingle()
+    : { data: null }
+  if (!client) {
+    return { redirect: false, ...oauthError('invalid_client', 'Unknown client_id') }
+  }
+  if (!(client as OAuthClient).redirect_uris.includes(params.redirect_uri)) {
+    return { redirect: false, ...oauthError('invalid_request', 'redirect_uri is not registered for this client') }
+  }
+
+  if (params.response_type !== 'code') {
+    return { redirect: true, ...oauthError('unsupported_response_type', 'response_type must be code') }
+  }
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return { redirect: true, ...oauthError('invalid_request', 'PKCE with code_challenge_method=S256 is required') }
+  }
+  if (params.scope && !params.scope.split(' ').every((s) => s === OAUTH_SCOPE)) {
+    return { redirect: true, ...oauthError('invalid_scope', `Only the ${OAUTH_SCOPE} scope is supported`) }
+  }
+
+  let endpoint = null
+  if (params.resource) {
+    const prefix = `${origin}/api/mcp/`
+    const endpointPath = params.resource.startsWith(prefix) ? params.resource.slice(prefix.length) : ''
+    const filter = endpointUrlFilter(endpointPath)
+    if (filter) {
+      const { data } = await admin
+        .from('mcp_endpoints')
+        .select('id, organization_id, endpoint_url, previous_endpoint_url, previous_url_expires_at')
+        .or(filter)
+        .maybeSingle()
+      endpoint = data && matchEndpointUrl(data, endpointPath) ? data : null
+    }
+    if (!endpoint || endpoint.organization_id !== organizationId) {
+      return {
+        redirect: true,
+        ...oauthError('invalid_target', 'resource is not an MCP endpoint of your organization'),
+      }
+    }
+  }
+
+  return { ok: true, client: client as OAuthClient, endpoint }
+}
+
+/** redirect_uri with the response parameters appended. */
+export function authorizationRedirect(redirectUri: string, params: Record<string, string>): string {
+  const url = new URL(redirectUri)
+  for (const [key, value] of Object.entries(params)) {
+    if (value) url.searchParams.set(key, value)
+  }
+  return url.toString()
+}
+
+/** Issue a single-use authorization code for an approved request. */
+export async function issueAuthorizationCode(
+  params: AuthorizeParams,
+  userId: string,
+  organizationId: string,
+  endpointId: string | null
+): Promise<string | null> {
+  const code = newSecret('synra_code_')
+  const admin = createAdminClient()
+  const { error } = await admin.from('oauth_authorization_codes').insert({
+    code_hash: hashSecret(code),
+    client_id: params.client_id,
+    user_id: userId,
+    organization_id: organizationId,
+    endpoint_id: endpointId,
+    redirect_uri: params.redirect_uri,
+    code_challenge: params.code_challenge,
+    scope: OAUTH_SCOPE,
+    expires_at: expiresIn(AUTHORIZATION_CODE_TTL_S),
+  })
+  if (error) {
+    console.error('Error issuing OAuth authorization code:', error)
+    return null
+  }
+  return code
+}
+
+// ─── Token endpoint ─────────────────────────────────────────────────
+
+type TokenResponse = { ok: true; body: Record<string, unknown> } | ({ ok: false } & OAuthError)
+
+async function issueTokens(grant: {
+  client_id: string
+  user_id: string
+  organization_id: string
+  endpoint_id: string | null
+  scope: string
+}): Promise<TokenResponse> {
+  const accessToken = newSecret('synra_at_')
+  const refreshToken = newSecret('synra_rt_')
+
+  const admin = createAdminClient()
+  const { error } = await admin.from('oauth_tokens').insert({
+    ...grant,
+    access_token_hash: hashSecret(accessToken),
+    refresh_token_hash: hashSecret(refreshToken),
+    expires_at: expiresIn(ACCESS_TOKEN_TTL_S),
+    refresh_expires_at: expiresIn(REFRESH_TOKEN_TTL_S),
+  })
+  if (error) {
+    console.error('Error issuing OAuth tokens:', error)
+    return oauthError('server_error', 'Failed to issue tokens')
+  }
+
+  return {
+    ok: true,
+    body: {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_S,
+      refresh_token: refreshToken,
+      scope: grant.scope,
+    },
+  }
+}
+
+/** A token request's `resource` names the endpoint the grant is bound to (either URL during a rotation). */
+function resourceMatches(resource: string | undefined, endpoint: any, origin: string) {
+  if (!resource) return true
+  const prefix = `${origin}/api/mcp/`
+  return !!endpoint && resource.startsWith(prefix) && !!matchEndpointUrl(endpoint, resource.slice(prefix.length))
+}
+
+/** authorization_code grant: verify the code and PKCE verifier, then issue tokens. */
+export async function exchangeAuthorizationCode(
+  form: Record<string, string | undefined>,
+  origin: string
+): Promise<TokenResponse> {
+  const { code, code_verifier, client_id, redirect_uri, resource } = form
+  if (!code || !code_verifier || !client_id || !redirect_uri) {
+    return oauthError('invalid_request', 'code, code_verifier, client_id and redirect_uri are required')
+  }
+
+  const admin = createAdminClient()
+
+  // Claim the code atomically so a replayed code can't mint a second token
+  const { data: grant } = await admin
+    .from('oauth_authorization_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('code_hash', hashSecret(code))
+    .is('used_at', null)
+    .select('*, mcp_endpoints(endpoint_url, previous_endpoint_url, previous_url_expires_at)')
+    .maybeSingle()
+
+  if (!grant || new Date(grant.expires_at).getTime() <= Date.now()) {
+    return oauthError('invalid_grant', 'Authorization code is invalid, expired or already used')
+  }
+  if (grant.client_id !== client_id || grant.redirect_uri !== redirect_uri) {
+    return oauthError('invalid_grant', 'client_id or redirect_uri does not match the authorization request')
+  }
+  if (!pkceMatches(code_verifier, grant.code_challenge)) {
+    return oauthError('invalid_grant', 'code_verifier does not match the code_challenge')
+  }
+  if (!resourceMatches(resource, grant.mcp_endpoints, origin)) {
+    return oauthError('invalid_target', 'resource does not match the authorization request')
+  }
+
+  return issueTokens({
+    client_id: grant.client_id,
+    user_id: grant.user_id,
+    organization_id: grant.organization_id,
+    endpoint_id: grant.endpoint_id,
+    scope: grant.scope,
+  })
+}
+
+/** refresh_token grant: rotate the refresh token if the user is still a member. */
+export async function refreshAccessToken(
+  form: Record<string, string | undefined>,
+  origin: string
+): Promise<TokenResponse> {
+  const { refresh_token, client_id, resource } = form
+  if (!refresh_token || !client_id) {
+    return oauthError('invalid_request', 'refresh_token and client_id are required')
+  }
+
+  const admin = createAdminClient()
+
+  // Revoke on read so each refresh token works exactly once
+  const { data: token } = await admin
+    .from('oauth_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('refresh_token_hash', hashSecret(refresh_token))
+    .is('revoked_at', null)
+    .select('*, mcp_endpoints(endpoint_url, previous_endpoint_url, previous_url_expires_at)')
+    .maybeSingle()
+
+  if (!token || new Date(token.refresh_expires_at).getTime() <= Date.now()) {
+    return oauthError('invalid_grant', 'Refresh token is invalid, expired or already used')
+  }
+  if (token.client_id !== client_id) {
+    return oauthError('invalid_grant', 'client_id does not match the refresh token')
+  }
+  if (!resourceMatches(resource, token.mcp_endpoints, origin)) {
+    return oauthError('invalid_target', 'resource does not match the original grant')
+  }
+
+  const { data: membership } = await admin
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', token.user_id)
+    .eq('organization_id', token.organization_id)
+    .maybeSingle()
+  if (!membership) {
+    return oauthError('invalid_grant', 'The user is no longer a member of this organization')
+  }
+
+  return issueTokens({
+    client_id: token.client_id,
+    user_id: token.user_id,
+    organization_id: token.organization_id,
+    endpoint_id: token.endpoint_id,
+    scope: token.scope,
+  })
+}
+
+// ─── Bearer validation (MCP route) ──────────────────────────────────
+
+interface CachedToken {
+  userId: string
+  organizationId: string
+  endpointId: string | null
+  tokenExpiresAt: number
+  cachedUntil: number
+}
+
+const tokenCache = new Map<string, CachedToken>()
+
+/** The bearer token from an Authorization header, if any. */
+export function bearerToken(authorization: string | null): string | null {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || '')
+  return match ? match[1] : null
+}
+
+/**
+ * Check an access token for `endpoint`. The token must be unexpired,
+ * issued to a member of the endpoint's organization, and — if it was
+ * bound to a resource — issued for this endpoint.
+ */
+export async function verifyAccessToken(
+  token: string | null,
+  endpoint: { id: string; organization_id: string }
+): Promise<{ ok: true; userId: string } | { ok: false; error: string }> {
+  if (!token) return { ok: false, error: 'Missing bearer token' }
+
+  const hash = hashSecret(token)
+  const now = Date.now()
+  let cached = tokenCache.get(hash)
+
+  if (!cached || cached.cachedUntil <= now) {
+    tokenCache.delete(hash)
+    const admin = createAdminClient()
+    const { data } = await admin
+      .from('oauth_tokens')
+      .select('id, user_id, organization_id, endpoint_id, expires_at')
+      .eq('access_token_hash', hash)
+      .is('revoked_at', null)
+      .maybeSingle()
+    if (!data) return { ok: false, error: 'Invalid access token' }
+
+    cached = {
+      userId: data.user_id,
+      organizationId: data.organization_id,
+      endpointId: data.endpoint_id,
+      tokenExpiresAt: new Date(data.expires_at).getTime(),
+      cachedUntil: now + TOKEN_CACHE_TTL_MS,
+    }
+    tokenCache.set(hash, cached)
+
+    admin
+      .from('oauth_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id)
+      .then(() => {}) // fire and forget
+  }
+
+  if (cached.tokenExpiresAt <= now) return { ok: false, error: 'Access token expired' }
+  if (
+    cached.organizationId !== endpoint.organization_id ||
+    (cached.endpointId !== null && cached.endpointId !== endpoint.id)
+  ) {
+    return { ok: false, error: 'Access token was not issued for this endpoint' }
+  }
+
+  return { ok: true, userId: cached.userId }
+}
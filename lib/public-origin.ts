@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server'
+
+/**
+ * Resolve the user-facing public origin (e.g. "https://app.mcpserver.design")
+ * even when Next.js sees the request via a reverse proxy that injects the
+ * internal hostname (Railway uses localhost:8080 internally).
+ *
+ * Precedence:
+ *   1. x-forwarded-host + x-forwarded-proto (set by every modern proxy)
+ *   2. Host header (set by the browser, usually correct on direct hits)
+ *   3. request.url's origin (fallback for unproxied / dev environments)
+ */
+export function getPublicOrigin(request: NextRequest): string {
+  const forwardedHost = request.headers.get('x-forwarded-host')
+  const forwardedProto = request.headers.get('x-forwarded-proto')
+  if (forwardedHost) {
+    const proto =
+      forwardedProto ||
+      (forwardedHost.startsWith('localhost') ? 'http' : 'https')
+    return `${proto}://${forwardedHost}`
+  }
+  const host = request.headers.get('host')
+  if (host && !host.startsWith('localhost')) {
+    const proto = forwardedProto || 'https'
+    return `${proto}://${host}`
+  }
+  return new URL(request.url).origin
+}
+
+/**
+ * `target` as a path on `origin`, for post-login redirects taken from
+ * the query string. Anything that resolves to another origin —
+ * `https://evil.com`, `//evil.com`, `/\evil.com` — gives `fallback`.
+ */
+export function sameOriginPath(
+  target: string | null,
+  origin: string,
+  fallback = '/dashboard'
+): string {
+  if (!target || !target.startsWith('/')) return fallback
+  try {
+    const url = new URL(target, origin)
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : fallback
+  } catch {
+    return fallback
+  }
+}
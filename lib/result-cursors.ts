@@ -0,0 +1,88 @@
+/**
+ * Continuation cursors for truncated execute_sql results
+ *
+ * When execute_sql drops rows (row cap or byte budget), the gateway
+ * swaps the result's next_offset for an opaque `next_cursor`. The
+ * fetch_more tool hands it back; the gateway re-runs the same statement
+ * and params through the service's execute_sql with
+ * ToolCallContext.rowOffset, so every dialect pages the same way and the
+ * query is re-checked by the sanitizer, allowed_tables and the cost
+ * guard on each page. Handlers push the offset into the SQL (pageSql in
+ * lib/sql-sanitizer.ts), so a page reads one page of rows, not the
+ * whole result.
+ *
+ * Each page is a new snapshot: rows inserted or deleted between pages
+ * shift the ones after them, so a page can skip or repeat rows.
+ * fetch_more's description says so.
+ *
+ * Cursors belong to one scope — the MCP session, or the endpoint for
+ * session-less clients — and expire CURSOR_TTL_MS after they're issued.
+ * In memory, like lib/inflight-calls.ts: the gateway is a single
+ * long-lived process.
+ */
+
+import { randomUUID } from 'crypto'
+
+const CURSOR_TTL_MS = 10 * 60 * 1000
+
+/** Oldest cursors are dropped beyond this, so abandoned ones can't pile up. */
+const MAX_CURSORS = 10_000
+
+const FETCH_MORE_NOTICE = 'Call fetch_more with next_cursor for the next rows.'
+
+export interface ResultCursor {
+  scope: string
+  /** execute_sql arguments to re-run: the statement and its bind params. */
+  args: { sql: string; params?: unknown }
+  /** Rows of the result already returned. */
+  offset: number
+  expiresAt: number
+}
+
+const cursors = new Map<string, ResultCursor>()
+
+function sweepCursors(now: number) {
+  for (const [token, cursor] of cursors) {
+    if (cursor.expiresAt <= now) cursors.delete(token)
+  }
+  // Map iteration is insertion order, so this drops the oldest first
+  for (const token of cursors.keys()) {
+    if (cursors.size < MAX_CURSORS) break
+    cursors.delete(token)
+  }
+}
+
+/** The cursor for `token`, or null when it's unknown, expired or another scope's. */
+export function resolveCursor(token: unknown, scope: string): ResultCursor | null {
+  if (typeof token !== 'string') return null
+  const cursor = cursors.get(token)
+  if (!cursor || cursor.scope !== scope) return null
+  if (cursor.expiresAt <= Date.now()) {
+    cursors.delete(token)
+    return null
+  }
+  return cursor
+}
+
+/**
+ * Replace a truncated execute_sql result's next_offset with a cursor
+ * for the following page. Other results are returned unchanged.
+ */
+export function attachCursor(data: any, scope: string, args: ResultCursor['args']): any {
+  if (!data || typeof data !== 'object' || typeof data.next_offset !== 'number') {
+    return data
+  }
+
+  const now = Date.now()
+  sweepCursors(now)
+
+  const token = randomUUID()
+  cursors.set(token, { scope, args, offset: data.next_offset, expiresAt: now + CURSOR_TTL_MS })
+
+  const { next_offset: _, ...rest } = data
+  return {
+    ...rest,
+    notice: rest.notice ? `${rest.notice} ${FETCH_MORE_NOTICE}` : FETCH_MORE_NOTICE,
+    next_cursor: token,
+  }
+}
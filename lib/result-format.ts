@@ -0,0 +1,178 @@
+/**
+ * Result Formats — compact text encodings for row results
+ *
+ * Pretty-printed JSON repeats every column name on every row, which makes
+ * a 500-row result the most token-expensive thing an AI client reads.
+ * query_table and execute_sql take an optional `format` argument (the
+ * endpoint's result_format is the default) and the gateway encodes the
+ * rows here:
+ *   json      — pretty-printed objects, one per row (default)
+ *   columnar  — compact JSON: column names once, then rows as arrays
+ *   csv       — RFC 4180 with a header row
+ *   markdown  — a pipe table
+ *
+ * Cell values are rendered the same way in every format (and in
+ * structuredContent): dates as ISO strings, binary as 0x-prefixed hex,
+ * bigints as strings. In csv and markdown NULL is empty and nested JSON
+ * is compact. Metadata next to the rows (row_count, notice,
+ * cost_warning) is kept — as fields in the JSON formats, as
+ * `key: value` lines above the table in the text ones.
+ */
+
+export const RESULT_FORMATS = ['json', 'columnar', 'csv', 'markdown'] as const
+
+export type ResultFormat = (typeof RESULT_FORMATS)[number]
+
+export const DEFAULT_RESULT_FORMAT: ResultFormat = 'json'
+
+/** inputSchema property for the tools that return rows. */
+export const RESULT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: [...RESULT_FORMATS],
+  description:
+    'Result encoding. columnar (JSON with column names once), csv and markdown use far fewer tokens than json for many rows. Defaults to the endpoint setting.',
+}
+
+export function isResultFormat(value: unknown): value is ResultFormat {
+  return typeof value === 'string' && (RESULT_FORMATS as readonly string[]).includes(value)
+}
+
+// ─── Cell rendering ─────────────────────────────────────────────────
+
+/**
+ * One cell as a JSON value. Drivers hand back Dates, Buffers and (with
+ * big-number support) bigints, which JSON.stringify would turn into
+ * timezone-shifted strings, byte arrays or an exception.
+ */
+export function renderCell(value: unknown): unknown {
+  if (value === undefined) return null
+  if (typeof value === 'bigint') return value.toString()
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString()
+  if (value instanceof Uint8Array) return `0x${Buffer.from(value).toString('hex')}`
+  return value
+}
+
+/** One cell in a text format: NULL is empty, nested JSON is compact. */
+function cellText(value: unknown): string {
+  const cell = renderCell(value)
+  if (cell === null) return ''
+  return typeof cell === 'object' ? JSON.stringify(cell) : String(cell)
+}
+
+function renderRow(row: unknown): unknown {
+  if (!row || typeof row !== 'object' || Array.isArray(row)) return row
+  const out: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(row)) out[key] = renderCell(value)
+  return out
+}
+
+/** A tool result with every row's cells rendered, in the same shape. */
+export function renderResultRows(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(renderRow)
+  if (data && typeof data === 'object' && Array.isArray((data as any).rows)) {
+    return { ...data, rows: (data as any).rows.map(renderRow) }
+  }
+  return data
+}
+
+// ─── Encoders ───────────────────────────────────────────────────────
+
+interface RowSet {
+  /** Everything next to the rows: table, row_count, notice, cost_warning. */
+  meta: Record<string, unknown>
+  columns: string[]
+  rows: Record<string, unknown>[]
+}
+
+/** Split a tool result into rows and metadata. Null if it holds no rows. */
+function toRowSet(data: unknown): RowSet | null {
+  let meta: Record<string, unknown> = {}
+  let rows: unknown
+
+  if (Array.isArray(data)) {
+    meta = { row_count: data.length }
+    rows = data
+  } else if (data && typeof data === 'object' && Array.isArray((data as any).rows)) {
+    const { rows: dataRows, ...rest } = data as Record<string, unknown>
+    meta = rest
+    rows = dataRows
+  } else {
+    return null
+  }
+
+  const rowList = (rows as unknown[]).filter(
+    (row): row is Record<string, unknown> => !!row && typeof row === 'object' && !Array.isArray(row)
+  )
+  const columns: string[] = []
+  const seen = new Set<string>()
+  for (const row of rowList) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    }
+  }
+
+  return { meta, columns, rows: rowList }
+}
+
+function metaLines(meta: Record<string, unknown>): string {
+  const lines = Object.entries(meta).map(([key, value]) => `${key}: ${cellText(value)}`)
+  return lines.length > 0 ? `${lines.join('\n')}\n\n` : ''
+}
+
+function csvField(value: unknown): string {
+  const text = cellText(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function markdownField(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+function encodeColumnar({ meta, columns, rows }: RowSet): string {
+  return JSON.stringify({
+    ...meta,
+    columns,
+    rows: rows.map((row) => columns.map((column) => renderCell(row[column]))),
+  })
+}
+
+function encodeCsv({ meta, columns, rows }: RowSet): string {
+  const lines = [
+    columns.map(csvField).join(','),
+    ...rows.map((row) => columns.map((column) => csvField(row[column])).join(',')),
+  ]
+  return metaLines(meta) + lines.join('\r\n')
+}
+
+function encodeMarkdown({ meta, columns, rows }: RowSet): string {
+  if (columns.length === 0) return `${metaLines(meta)}(no rows)`
+  const lines = [
+    `| ${columns.map(markdownField).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${columns.map((column) => markdownField(row[column])).join(' | ')} |`),
+  ]
+  return metaLines(meta) + lines.join('\n')
+}
+
+/**
+ * A tool result's text content in `format`. Results without rows
+ * (list_tables, describe_table, errors) are always pretty JSON.
+ */
+export function formatToolResult(data: unknown, format: ResultFormat): string {
+  const rowSet = toRowSet(data)
+  if (!rowSet) return JSON.stringify(data, null, 2)
+
+  switch (format) {
+    case 'columnar':
+      return encodeColumnar(rowSet)
+    case 'csv':
+      return encodeCsv(rowSet)
+    case 'markdown':
+      return encodeMarkdown(rowSet)
+    default:
+      return JSON.stringify(renderResultRows(data), null, 2)
+  }
+}
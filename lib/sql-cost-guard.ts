@@ -0,0 +1,153 @@
+/**
+ * SQL Cost Guard — EXPLAIN pre-flight for execute_sql
+ *
+ * Handlers run the dialect's plan-only command (EXPLAIN / SHOWPLAN_XML)
+ * before executing a raw query and hand the plan here. When the
+ * planner's estimate exceeds the endpoint's thresholds the query is
+ * rejected (or, in warn mode, run with a warning attached), so one
+ * careless cross join can't occupy a production database for the full
+ * 120s statement timeout.
+ *
+ * Configured per endpoint on mcp_endpoints.cost_guard_*; off by default.
+ */
+
+export const COST_GUARD_MODES = ['off', 'warn', 'reject'] as const
+
+export type CostGuardMode = (typeof COST_GUARD_MODES)[number]
+
+export interface CostGuardSettings {
+  mode: CostGuardMode
+  /** Planner's estimated result rows. Null = no row limit. */
+  maxRows?: number | null
+  /** Planner cost units (Postgres cost, MySQL query_cost, SQL Server subtree cost). Null = no cost limit. */
+  maxCost?: number | null
+}
+
+export interface PlanEstimate {
+  rows: number
+  cost: number
+}
+
+interface CostGuardResult {
+  allowed: boolean
+  /** Set when the estimate is over a threshold, in either mode. */
+  message?: string
+}
+
+const COST_HINT =
+  'Hint: add WHERE filters or a LIMIT, or aggregate (COUNT, SUM, GROUP BY) so the database scans less.'
+
+export function isCostGuardMode(value: unknown): value is CostGuardMode {
+  return typeof value === 'string' && (COST_GUARD_MODES as readonly string[]).includes(value)
+}
+
+/** Build settings from an mcp_endpoints row. Unknown or missing mode = off. */
+export function costGuardFromEndpoint(endpoint: {
+  cost_guard_mode?: string | null
+  cost_guard_max_rows?: number | string | null
+  cost_guard_max_cost?: number | string | null
+}): CostGuardSettings {
+  const mode = endpoint.cost_guard_mode
+  const toNumber = (value: number | string | null | undefined) => {
+    const n = Number(value)
+    return value === null || value === undefined || !Number.isFinite(n) ? null : n
+  }
+  return {
+    mode: mode === 'warn' || mode === 'reject' ? mode : 'off',
+    maxRows: toNumber(endpoint.cost_guard_max_rows),
+    maxCost: toNumber(endpoint.cost_guard_max_cost),
+  }
+}
+
+function isCostGuardEnabled(settings?: CostGuardSettings | null): settings is CostGuardSettings {
+  return (
+    !!settings &&
+    settings.mode !== 'off' &&
+    (settings.maxRows != null || settings.maxCost != null)
+  )
+}
+
+function evaluateCostGuard(
+  estimate: PlanEstimate,
+  settings: CostGuardSettings
+): CostGuardResult {
+  const over: string[] = []
+  if (settings.maxRows != null && estimate.rows > settings.maxRows) {
+    over.push(`~${Math.round(estimate.rows).toLocaleString('en-US')} rows (limit ${settings.maxRows.toLocaleString('en-US')})`)
+  }
+  if (settings.maxCost != null && estimate.cost > settings.maxCost) {
+    over.push(`cost ${Math.round(estimate.cost).toLocaleString('en-US')} (limit ${settings.maxCost.toLocaleString('en-US')})`)
+  }
+  if (over.length === 0) return { allowed: true }
+
+  const estimateText = `The query planner estimates ${over.join(' and ')}, over this endpoint's threshold`
+  if (settings.mode === 'reject') {
+    return { allowed: false, message: `Query rejected by cost guard: ${estimateText}. ${COST_HINT}` }
+  }
+  return { allowed: true, message: `${estimateText}. ${COST_HINT}` }
+}
+
+/**
+ * Run `estimate` (the handler's EXPLAIN) when the guard is on and judge
+ * the plan. Throws the rejection message in reject mode; returns the
+ * warning in warn mode. EXPLAIN errors propagate — they're the same
+ * syntax or schema errors the query itself would raise.
+ */
+export async function applyCostGuard(
+  settings: CostGuardSettings | null | undefined,
+  estimate: () => Promise<PlanEstimate | null>
+): Promise<string | undefined> {
+  if (!isCostGuardEnabled(settings)) return undefined
+  const plan = await estimate()
+  if (!plan) return undefined
+  const result = evaluateCostGuard(plan, settings)
+  if (!result.allowed) throw new Error(result.message)
+  return result.message
+}
+
+/** Attach a warn-mode message to an execute_sql result without changing its rows. */
+export function withCostWarning(result: any, warning?: string): any {
+  if (!warning) return result
+  if (Array.isArray(result)) {
+    return { cost_warning: warning, row_count: result.length, rows: result }
+  }
+  return { cost_warning: warning, ...result }
+}
+
+// ─── Plan Parsing ───────────────────────────────────────────────────
+
+/** Top plan node of `EXPLAIN (FORMAT JSON)`. */
+export function estimateFromPostgresPlan(queryPlan: any): PlanEstimate | null {
+  const plan = Array.isArray(queryPlan) ? queryPlan[0]?.Plan : queryPlan?.Plan
+  if (!plan) return null
+  return { rows: Number(plan['Plan Rows']) || 0, cost: Number(plan['Total Cost']) || 0 }
+}
+
+/**
+ * `EXPLAIN FORMAT=JSON`. MySQL reports rows per table, so the estimate is
+ * the largest rows_produced_per_join — the running row count of the join.
+ */
+export function estimateFromMysqlPlan(explainJson: string | object): PlanEstimate | null {
+  const parsed = typeof explainJson === 'string' ? JSON.parse(explainJson) : explainJson
+  const block = (parsed as any)?.query_block
+  if (!block) return null
+
+  let rows = 0
+  const walk = (node: unknown) => {
+    if (!node || typeof node !== 'object') return
+    const produced = Number((node as any).rows_produced_per_join)
+    if (Number.isFinite(produced)) rows = Math.max(rows, produced)
+    for (const value of Object.values(node)) walk(value)
+  }
+  walk(block)
+
+  return { rows, cost: Number(block.cost_info?.query_cost) || 0 }
+}
+
+/** First statement of a `SET SHOWPLAN_XML ON` plan. */
+export function estimateFromShowplanXml(xml: string): PlanEstimate | null {
+  const stmt = /<StmtSimple\b[^>]*>/.exec(xml)?.[0]
+  if (!stmt) return null
+  const attr = (name: string) => Number(new RegExp(`\\b${name}="([^"]+)"`).exec(stmt)?.[1]) || 0
+  return { rows: attr('StatementEstRows'), cost: attr('StatementSubTreeCost') }
+}
@@ -0,0 +1,229 @@
+/**
+ * SQL Denylist — functions and clauses execute_sql refuses per dialect
+ *
+ * A well-formed single SELECT can still sleep, lock rows, read the
+ * server's filesystem or reach other servers. These lists are checked
+ * against the parsed statement by sanitizeSql, so a name only matches
+ * where it's actually called, never inside a literal or identifier.
+ *
+ * Endpoints can extend or relax the defaults through
+ * mcp_endpoints.sql_denylist: { "deny": [...], "allow": [...] }.
+ * Entries are function names (`pg_sleep`) or clause names (`FOR UPDATE`),
+ * case-insensitive. The read-only guarantees themselves (one SELECT, no
+ * nested writes) are not part of the denylist and can't be relaxed.
+ */
+
+import type { SqlDialect } from '@/lib/sql-parser'
+
+export interface SqlDenylistOverrides {
+  /** Extra functions or clauses to reject on this endpoint. */
+  deny?: string[]
+  /** Default entries this endpoint has opted back into. */
+  allow?: string[]
+}
+
+/** Uppercased function and clause names; the two never collide. */
+export type SqlDenylist = Set<string>
+
+// ─── Defaults ───────────────────────────────────────────────────────
+
+const DEFAULT_FUNCTIONS: Record<SqlDialect, string[]> = {
+  postgresql: [
+    // Sleeps and locks
+    'pg_sleep',
+    'pg_sleep_for',
+    'pg_sleep_until',
+    'pg_advisory_lock',
+    'pg_advisory_xact_lock',
+    'pg_advisory_lock_shared',
+    'pg_try_advisory_lock',
+    // Server filesystem
+    'pg_read_file',
+    'pg_read_binary_file',
+    'pg_ls_dir',
+    'pg_stat_file',
+    'lo_import',
+    'lo_export',
+    // Large objects: read by OID, outside any table
+    'lo_get',
+    'lo_open',
+    'loread',
+    // Other servers
+    'dblink',
+    'dblink_exec',
+    'dblink_connect',
+    'dblink_connect_u',
+    'dblink_open',
+    'dblink_fetch',
+    'dblink_send_query',
+    'dblink_get_result',
+    // Session and server state
+    'set_config',
+    'pg_terminate_backend',
+    'pg_cancel_backend',
+    'pg_reload_conf',
+    'setval',
+    'nextval',
+    // Run SQL or read whole tables named in a string, hiding them from
+    // validation and from allowed_tables
+    'query_to_xml',
+    'query_to_xml_and_xmlschema',
+    'table_to_xml',
+    'table_to_xml_and_xmlschema',
+    'schema_to_xml',
+    'schema_to_xml_and_xmlschema',
+    'database_to_xml',
+    'database_to_xml_and_xmlschema',
+    'cursor_to_xml',
+  ],
+  mysql: [
+    'sleep',
+    'benchmark',
+    'load_file',
+    'get_lock',
+    'release_lock',
+    'release_all_locks',
+    'master_pos_wait',
+    'source_pos_wait',
+    'sys_exec',
+    'sys_eval',
+  ],
+  mssql: [
+    'openrowset',
+    'opendatasource',
+    'openquery',
+    'openxml',
+    'xp_cmdshell',
+    'xp_dirtree',
+    'xp_fileexist',
+    'xp_regread',
+    'sp_oacreate',
+  ],
+}
+
+/**
+ * Clause names as sanitizeSql reports them. PostgreSQL locking clauses
+ * (FOR UPDATE / FOR SHARE) and T-SQL WAITFOR aren't in the parser's
+ * grammar at all, so they never validate and need no entry here.
+ */
+const DEFAULT_CLAUSES: Record<SqlDialect, string[]> = {
+  postgresql: ['INTO'],
+  mysql: ['INTO', 'INTO OUTFILE', 'INTO DUMPFILE', 'FOR UPDATE', 'FOR SHARE', 'LOCK IN SHARE MODE'],
+  mssql: ['INTO', 'UPDLOCK', 'XLOCK', 'HOLDLOCK', 'TABLOCK', 'TABLOCKX', 'PAGLOCK'],
+}
+
+// ─── Resolution ─────────────────────────────────────────────────────
+
+function normalizeEntry(entry: string): string {
+  return entry.trim().replace(/\s+/g, ' ')
+}
+
+/** The dialect's defaults with an endpoint's deny/allow overrides applied. */
+export function resolveSqlDenylist(
+  dialect: SqlDialect,
+  overrides?: SqlDenylistOverrides | null
+): SqlDenylist {
+  const denylist: SqlDenylist = new Set(
+    [...DEFAULT_FUNCTIONS[dialect], ...DEFAULT_CLAUSES[dialect]].map((e) => e.toUpperCase())
+  )
+
+  const entries = (list: unknown): string[] =>
+    Array.isArray(list)
+      ? list
+          .filter((e): e is string => typeof e === 'string' && e.trim().length > 0)
+          .map((e) => normalizeEntry(e).toUpperCase())
+      : []
+
+  for (const entry of entries(overrides?.deny)) denylist.add(entry)
+  for (const entry of entries(overrides?.allow)) denylist.delete(entry)
+
+  return denylist
+}
+
+// ─── Validation ─────────────────────────────────────────────────────
+
+const MAX_OVERRIDE_ENTRIES = 100
+const MAX_ENTRY_LENGTH = 100
+// A function name, or a clause name of words separated by single spaces
+const ENTRY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*( [A-Za-z_]+)*$/
+
+/** The dialect's default function and clause names, for the dashboard. */
+export function defaultSqlDenylist(dialect: SqlDialect): string[] {
+  return [...DEFAULT_FUNCTIONS[dialect], ...DEFAULT_CLAUSES[dialect]]
+}
+
+/**
+ * Validate an endpoint's sql_denylist from the dashboard. `deny` takes
+ * any function or clause name; `allow` only the dialect's defaults, so a
+ * misspelt entry can't look like it lifted something it didn't. Null or
+ * both lists empty = the defaults.
+ */
+export function parseSqlDenylist(
+  input: any,
+  dialect: SqlDialect
+): { ok: true; overrides: SqlDenylistOverrides | null } | { ok: false; error: string } {
+  if (input === null) return { ok: true, overrides: null }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'sql_denylist must be an object with deny and allow lists, or null' }
+  }
+
+  const lists: Record<'deny' | 'allow', string[]> = { deny: [], allow: [] }
+  for (const key of ['deny', 'allow'] as const) {
+    const list = input[key] ?? []
+    if (!Array.isArray(list) || list.some((e) => typeof e !== 'string')) {
+      return { ok: false, error: `sql_denylist.${key} must be a list of function or clause names` }
+    }
+    const entries = [...new Set(list.map(normalizeEntry).filter(Boolean))]
+    if (entries.length > MAX_OVERRIDE_ENTRIES) {
+      return { ok: false, error: `sql_denylist.${key} can have at most ${MAX_OVERRIDE_ENTRIES} entries` }
+    }
+    const invalid = entries.find((e) => e.length > MAX_ENTRY_LENGTH || !ENTRY_PATTERN.test(e))
+    if (invalid) {
+      return { ok: false, error: `sql_denylist.${key}: "${invalid}" is not a function or clause name` }
+    }
+    lists[key] = entries
+  }
+
+  const defaults = defaultSqlDenylist(dialect)
+  const known = new Set(defaults.map((e) => e.toUpperCase()))
+  const unknown = lists.allow.find((e) => !known.has(e.toUpperCase()))
+  if (unknown) {
+    return {
+      ok: false,
+      error: `sql_denylist.allow: ${unknown} is not denied by default. Default entries: ${defaults.join(', ')}`,
+    }
+  }
+
+  if (lists.deny.length === 0 && lists.allow.length === 0) return { ok: true, overrides: null }
+  return { ok: true, overrides: lists }
+}
+
+/** Statements and clauses outside the parser's grammar — always rejected, named here for the error message. */
+const UNPARSEABLE_CLAUSES: Record<SqlDialect, string[]> = {
+  postgresql: ['FOR UPDATE', 'FOR NO KEY UPDATE', 'FOR SHARE', 'FOR KEY SHARE'],
+  mysql: [],
+  mssql: ['WAITFOR', 'EXEC', 'EXECUTE'],
+}
+
+/**
+ * Best-effort name for what made the parser reject a query, so the error
+ * can say "xp_cmdshell()" instead of "syntax error". Only improves the
+ * message — the query is rejected either way.
+ */
+export function findDenylistedWord(
+  sql: string,
+  dialect: SqlDialect,
+  denylist: SqlDenylist
+): { word: string; isFunction: boolean } | null {
+  for (const clause of UNPARSEABLE_CLAUSES[dialect]) {
+    if (new RegExp(`\\b${clause.replace(/ /g, '\\s+')}\\b`, 'i').test(sql)) {
+      return { word: clause, isFunction: false }
+    }
+  }
+  for (const entry of denylist) {
+    if (/^[A-Z0-9_]+$/.test(entry) && new RegExp(`\\b${entry}\\s*\\(`, 'i').test(sql)) {
+      return { word: entry.toLowerCase(), isFunction: true }
+    }
+  }
+  return null
+}
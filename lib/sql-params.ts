@@ -0,0 +1,244 @@
+/**
+ * SQL Params — typed bind parameters for execute_sql
+ *
+ * AIs that inline user-provided values as literals get quoting wrong
+ * (O'Brien, dates, JSON) and produce injection-shaped errors. execute_sql
+ * takes an optional `params` array instead, bound natively by each
+ * driver against the dialect's placeholders:
+ *   postgresql  $1, $2, ...
+ *   mysql       ?
+ *   mssql       @p1, @p2, ...
+ *
+ * A param is a bare JSON value or { value, type } with a type hint. The
+ * hint validates and converts the value here and, for SQL Server, picks
+ * the declared parameter type. The placeholder count must match the
+ * params — counted outside string literals, quoted identifiers and
+ * comments.
+ */
+
+import type { SqlDialect } from '@/lib/sql-parser'
+
+export const SQL_PARAM_TYPES = ['string', 'integer', 'number', 'boolean', 'date', 'timestamp', 'json'] as const
+
+export type SqlParamType = (typeof SQL_PARAM_TYPES)[number]
+
+export interface SqlParam {
+  value: string | number | boolean | null
+  /** Set when the caller gave a type hint. */
+  type?: SqlParamType
+}
+
+const MAX_PARAMS = 100
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+const PLACEHOLDER_SYNTAX: Record<SqlDialect, string> = {
+  postgresql: '$1, $2, ...',
+  mysql: '?',
+  mssql: '@p1, @p2, ...',
+}
+
+const PLACEHOLDER_EXAMPLE: Record<SqlDialect, string> = {
+  postgresql: `"WHERE email = $1 AND id = ANY($2::int[])" with params ["a@example.com", "{1,2,3}"]`,
+  mysql: `"WHERE email = ? AND created_at > ?" with params ["a@example.com", { "value": "2024-01-01", "type": "date" }]`,
+  mssql: `"WHERE email = @p1 AND created_at > @p2" with params ["a@example.com", { "value": "2024-01-01", "type": "date" }]`,
+}
+
+/** execute_sql inputSchema property, worded for the dialect's placeholders. */
+export function sqlParamsProperty(dialect: SqlDialect) {
+  return {
+    type: 'array',
+    description: `Values for the query's ${PLACEHOLDER_SYNTAX[dialect]} placeholders, in order. Use these instead of inlining literals. Each item is a value, or { "value": ..., "type": ... } with type one of ${SQL_PARAM_TYPES.join(', ')}. Example: ${PLACEHOLDER_EXAMPLE[dialect]}.`,
+    items: {
+      anyOf: [
+        { type: ['string', 'number', 'boolean', 'null'] },
+        {
+          type: 'object',
+          properties: {
+            value: {},
+            type: { type: 'string', enum: [...SQL_PARAM_TYPES] },
+          },
+          required: ['value'],
+        },
+      ],
+    },
+    maxItems: MAX_PARAMS,
+  }
+}
+
+// ─── Placeholders ───────────────────────────────────────────────────
+
+/** Index just past the quoted run starting at `start`, doubling `quote` to escape it. */
+export function skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2
+      continue
+    }
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2
+        continue
+      }
+      return i + 1
+    }
+    i++
+  }
+  return i
+}
+
+/**
+ * Call `visit` for each placeholder in `sql` outside string literals,
+ * quoted identifiers and comments, with its index ($N / @pN; 0 for
+ * MySQL's ?) and its span. Throws on placeholder syntax the driver would
+ * read differently (mysql2's ?? identifier placeholder).
+ */
+export function forEachPlaceholder(
+  sql: string,
+  dialect: SqlDialect,
+  visit: (index: number, start: number, end: number) => void
+): void {
+  let i = 0
+
+  while (i < sql.length) {
+    const ch = sql[i]
+    const next = sql[i + 1]
+
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i)
+      i = end === -1 ? sql.length : end + 1
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 2
+    } else if (ch === "'") {
+      i = skipQuoted(sql, i, "'", dialect === 'mysql')
+    } else if (ch === '"') {
+      i = skipQuoted(sql, i, '"', dialect === 'mysql')
+    } else if (ch === '`' && dialect === 'mysql') {
+      i = skipQuoted(sql, i, '`', false)
+    } else if (ch === '[' && dialect === 'mssql') {
+      i = skipQuoted(sql, i, ']', false)
+    } else if (ch === '$' && dialect === 'postgresql') {
+      const param = /^\$(\d+)/.exec(sql.slice(i))
+      const dollarQuote = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))
+      if (param) {
+        visit(Number(param[1]), i, i + param[0].length)
+        i += param[0].length
+      } else if (dollarQuote) {
+        const end = sql.indexOf(dollarQuote[0], i + dollarQuote[0].length)
+        i = end === -1 ? sql.length : end + dollarQuote[0].length
+      } else {
+        i++
+      }
+    } else if (ch === '?' && dialect === 'mysql') {
+      if (next === '?') throw new Error('?? placeholders are not supported; use ? for values')
+      visit(0, i, i + 1)
+      i++
+    } else if (ch === '@' && dialect === 'mssql') {
+      const param = /^@[pP](\d+)(?![A-Za-z0-9_@$#])/.exec(sql.slice(i))
+      if (param && sql[i - 1] !== '@') {
+        visit(Number(param[1]), i, i + param[0].length)
+        i += param[0].length
+      } else {
+        i++
+      }
+    } else {
+      i++
+    }
+  }
+}
+
+/**
+ * The placeholders `sql` uses: the highest $N / @pN index, or the
+ * number of ? for MySQL.
+ */
+export function countPlaceholders(sql: string, dialect: SqlDialect): number {
+  let count = 0
+  forEachPlaceholder(sql, dialect, (index) => {
+    count = dialect === 'mysql' ? count + 1 : Math.max(count, index)
+  })
+  return count
+}
+
+// ─── Values ─────────────────────────────────────────────────────────
+
+function convertValue(value: unknown, type: SqlParamType | undefined, position: number): SqlParam['value'] {
+  if (value === null || value === undefined) return null
+  const fail = (expected: string): never => {
+    throw new Error(`params[${position}] must be ${expected}`)
+  }
+
+  switch (type) {
+    case undefined:
+      if (typeof value === 'object') return JSON.stringify(value)
+      return value as string | number | boolean
+    case 'string':
+      return typeof value === 'object' ? fail('text') : String(value)
+    case 'integer': {
+      const text = String(value).trim()
+      if (!/^-?\d+$/.test(text)) fail('an integer')
+      // Beyond 2^53 the driver gets the digits, not a rounded number
+      return Number.isSafeInteger(Number(text)) ? Number(text) : text
+    }
+    case 'number': {
+      const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      return typeof num === 'number' && Number.isFinite(num) ? num : fail('a number')
+    }
+    case 'boolean':
+      if (value === true || value === 'true') return true
+      if (value === false || value === 'false') return false
+      return fail('true or false')
+    case 'date':
+      return typeof value === 'string' && DATE_RE.test(value) && !Number.isNaN(Date.parse(value))
+        ? value
+        : fail('a date (YYYY-MM-DD)')
+    case 'timestamp':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? value
+        : fail('an ISO 8601 timestamp')
+    case 'json':
+      return JSON.stringify(value)
+  }
+}
+
+/**
+ * Validate execute_sql's `params` against `sql`'s placeholders and
+ * convert each to the value the driver binds.
+ */
+export function prepareSqlParams(
+  raw: unknown,
+  sql: string,
+  dialect: SqlDialect
+): { ok: true; params: SqlParam[] } | { ok: false; error: string } {
+  try {
+    const list = raw ?? []
+    if (!Array.isArray(list)) throw new Error('params must be an array')
+    if (list.length > MAX_PARAMS) throw new Error(`At most ${MAX_PARAMS} params are allowed`)
+
+    const params = list.map((item: unknown, position): SqlParam => {
+      const hinted = !!item && typeof item === 'object' && !Array.isArray(item) && 'value' in item
+      if (!hinted) return { value: convertValue(item, undefined, position) }
+
+      const { value, type } = item as { value: unknown; type?: unknown }
+      if (type !== undefined && !SQL_PARAM_TYPES.includes(type as SqlParamType)) {
+        throw new Error(`params[${position}] has unknown type '${String(type)}'`)
+      }
+      return {
+        value: convertValue(value, type as SqlParamType | undefined, position),
+        ...(type !== undefined ? { type: type as SqlParamType } : {}),
+      }
+    })
+
+    const placeholders = countPlaceholders(sql, dialect)
+    if (placeholders !== params.length) {
+      throw new Error(
+        `The query uses ${placeholders} placeholder${placeholders === 1 ? '' : 's'} (${PLACEHOLDER_SYNTAX[dialect]}) but ${params.length} param${params.length === 1 ? ' was' : 's were'} given`
+      )
+    }
+
+    return { ok: true, params }
+  } catch (err: any) {
+    return { ok: false, error: err.message }
+  }
+}
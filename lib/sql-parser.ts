@@ -0,0 +1,261 @@
+/**
+ * SQL Parser — dialect-aware AST access for execute_sql
+ *
+ * Thin wrapper around node-sql-parser so handlers can reason about what a
+ * raw query actually touches instead of pattern-matching its text.
+ * Dialects map 1:1 onto our SQL handlers (Supabase uses postgresql).
+ */
+
+import { Parser } from 'node-sql-parser'
+import type { AST } from 'node-sql-parser'
+import { forEachPlaceholder, skipQuoted } from '@/lib/sql-params'
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'mssql'
+
+const PARSER_DATABASE: Record<SqlDialect, string> = {
+  postgresql: 'PostgresQL',
+  mysql: 'MySQL',
+  mssql: 'TransactSQL',
+}
+
+/** Schema an unqualified table name resolves to, per dialect. MySQL's is the connected database. */
+const DEFAULT_SCHEMA: Record<Exclude<SqlDialect, 'mysql'>, string> = {
+  postgresql: 'public',
+  mssql: 'dbo',
+}
+
+const parser = new Parser()
+
+export interface ParsedSql {
+  statements: AST[]
+  /** node-sql-parser table list entries: "<statement type>::<db|null>::<table>" */
+  tableList: string[]
+  /** PostgreSQL only: how each identifier was written (see identifierSpellings). */
+  spellings?: IdentifierSpellings
+}
+
+interface IdentifierSpellings {
+  quoted: Set<string>
+  unquoted: Set<string>
+}
+
+/**
+ * The Postgres grammar reads `$1::int` but not `$1::int[]` or
+ * `$1::jsonb->>'key'`, so `WHERE id = ANY($1::int[])` wouldn't validate.
+ * `($1)::int[]` parses in every position; placeholders without a cast
+ * are left alone (`LIMIT $1` parses, `LIMIT ($1)` doesn't).
+ */
+function parenthesizeCastPlaceholders(sql: string): string {
+  let out = ''
+  let last = 0
+  forEachPlaceholder(sql, 'postgresql', (_index, start, end) => {
+    if (!/^\s*::/.test(sql.slice(end))) return
+    out += `${sql.slice(last, start)}(${sql.slice(start, end)})`
+    last = end
+  })
+  return out + sql.slice(last)
+}
+
+/** Parse `sql` for `dialect`. Throws with the parser's message on syntax it can't read. */
+export function parseSql(sql: string, dialect: SqlDialect): ParsedSql {
+  const opt = { database: PARSER_DATABASE[dialect] }
+  const source = dialect === 'postgresql' ? parenthesizeCastPlaceholders(sql) : sql
+  const ast = parser.astify(source, opt)
+  return {
+    statements: Array.isArray(ast) ? ast : [ast],
+    tableList: parser.tableList(source, opt),
+    ...(dialect === 'postgresql' ? { spellings: identifierSpellings(sql) } : {}),
+  }
+}
+
+// ─── Table References ───────────────────────────────────────────────
+
+/**
+ * Every identifier in a Postgres query outside literals and comments,
+ * quoted ones without their quotes. The parser drops the quotes, but
+ * they pick the table: unquoted `Users` is the table users, "Users" is
+ * a different one.
+ */
+function identifierSpellings(sql: string): IdentifierSpellings {
+  const quoted = new Set<string>()
+  const unquoted = new Set<string>()
+  let i = 0
+
+  while (i < sql.length) {
+    const ch = sql[i]
+    const next = sql[i + 1]
+
+    if (ch === '-' && next === '-') {
+      const end = sql.indexOf('\n', i)
+      i = end === -1 ? sql.length : end + 1
+    } else if (ch === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      i = end === -1 ? sql.length : end + 2
+    } else if (ch === "'") {
+      i = skipQuoted(sql, i, "'", false)
+    } else if (ch === '"') {
+      const end = skipQuoted(sql, i, '"', false)
+      quoted.add(sql.slice(i + 1, end - 1).replace(/""/g, '"'))
+      i = end
+    } else if (ch === '$') {
+      const dollarQuote = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))
+      if (dollarQuote) {
+        const end = sql.indexOf(dollarQuote[0], i + dollarQuote[0].length)
+        i = end === -1 ? sql.length : end + dollarQuote[0].length
+      } else {
+        i++
+      }
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_$]*/.exec(sql.slice(i))![0]
+      i += word.length
+      // E'...' takes backslash escapes
+      if (/^[eE]$/.test(word) && sql[i] === "'") {
+        i = skipQuoted(sql, i, "'", true)
+      } else {
+        unquoted.add(word)
+      }
+    } else {
+      i++
+    }
+  }
+
+  return { quoted, unquoted }
+}
+
+/**
+ * The names an identifier the parser reports as `name` can refer to.
+ * PostgreSQL folds unquoted names to lower case and keeps quoted ones
+ * as written; when the query has both spellings, or the spelling can't
+ * be found, both are returned and each must pass. MySQL and SQL Server
+ * compare names case-insensitively (checkTableAccess).
+ */
+function resolvedNames(name: string, dialect: SqlDialect, spellings?: IdentifierSpellings): string[] {
+  if (dialect !== 'postgresql' || name === name.toLowerCase()) return [name]
+  const names: string[] = []
+  if (spellings?.quoted.has(name)) names.push(name)
+  if (spellings?.unquoted.has(name)) names.push(name.toLowerCase())
+  return names.length > 0 ? names : [name, name.toLowerCase()]
+}
+
+/** Key for matching CTE names: exact for PostgreSQL, case-insensitive elsewhere. */
+function nameKey(name: string, dialect: SqlDialect): string {
+  return dialect === 'postgresql' ? name : name.toLowerCase()
+}
+
+/** A CTE's name as a nameKey; quoted PostgreSQL names keep their case. */
+function cteKey(cte: any, dialect: SqlDialect): string | null {
+  const name = cte?.name?.value ?? cte?.name
+  if (typeof name !== 'string') return null
+  const quoted = cte?.name?.type === 'double_quote_string'
+  return nameKey(dialect === 'postgresql' && !quoted ? name.toLowerCase() : name, dialect)
+}
+
+interface TableRef {
+  schema: string | null
+  table: string
+}
+
+interface TableWalk {
+  dialect: SqlDialect
+  spellings?: IdentifierSpellings
+  tables: TableRef[]
+  /** Lowercased names of every FROM entry seen, CTE or table. */
+  seen: Set<string>
+}
+
+/**
+ * Collect the FROM/JOIN tables under `node`. `ctes` are the WITH names
+ * in scope there: a statement's own and its parents', and inside a CTE
+ * body only the CTEs before it (all of them under RECURSIVE). An
+ * unqualified name matching one is the CTE; anywhere else the same name
+ * is the table.
+ */
+function collectTableRefs(node: unknown, ctes: Set<string>, walk: TableWalk): void {
+  if (!node || typeof node !== 'object') return
+  if (Array.isArray(node)) {
+    for (const child of node) collectTableRefs(child, ctes, walk)
+    return
+  }
+
+  const n = node as any
+  let scope = ctes
+  if (Array.isArray(n.with)) {
+    const names = n.with.map((cte: any) => cteKey(cte, walk.dialect)).filter(Boolean) as string[]
+    const recursive = n.with.some((cte: any) => cte?.recursive)
+    n.with.forEach((cte: any, index: number) => {
+      const visible = recursive ? names : n.with.slice(0, index).map((c: any) => cteKey(c, walk.dialect))
+      collectTableRefs(cte?.stmt, new Set([...ctes, ...visible.filter(Boolean)]), walk)
+    })
+    scope = new Set([...ctes, ...names])
+  }
+
+  if (Array.isArray(n.from)) {
+    for (const item of n.from) {
+      if (!item || typeof item.table !== 'string') continue
+      walk.seen.add(item.table.toLowerCase())
+      // T-SQL db.schema.table arrives as db + schema, like tableList's "db.schema"
+      const rawSchema = item.schema ? `${item.db}.${item.schema}` : item.db || null
+      const schemas = rawSchema ? resolvedNames(rawSchema, walk.dialect, walk.spellings) : [null]
+      for (const table of resolvedNames(item.table, walk.dialect, walk.spellings)) {
+        if (!rawSchema && scope.has(nameKey(table, walk.dialect))) continue
+        for (const schema of schemas) walk.tables.push({ schema, table })
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(n)) {
+    if (key !== 'with') collectTableRefs(value, scope, walk)
+  }
+}
+
+/**
+ * Every relation a query reads, normalized the way list_tables names
+ * tables: bare `table` in the default schema, `schema.table` elsewhere.
+ * References to a CTE in scope are excluded (their bodies are walked
+ * instead). PostgreSQL names come back as the catalog spells them
+ * (unquoted folded to lower case). Views come back like tables — they
+ * must be allowed in their own right.
+ *
+ * `database` is the connected database: the default schema for MySQL,
+ * and a redundant prefix to strip from T-SQL three-part names.
+ */
+export function referencedTables(
+  parsed: ParsedSql,
+  dialect: SqlDialect,
+  database?: string
+): string[] {
+  const walk: TableWalk = { dialect, spellings: parsed.spellings, tables: [], seen: new Set() }
+  collectTableRefs(parsed.statements, new Set(), walk)
+
+  // tableList backs up the walk: a relation the parser saw in a place
+  // the walk doesn't look counts as a table, never as a CTE
+  for (const entry of parsed.tableList) {
+    const [, rawSchema, table] = entry.split('::')
+    if (walk.seen.has(table.toLowerCase())) continue
+    const schema = rawSchema === 'null' ? null : rawSchema
+    for (const name of resolvedNames(table, dialect, parsed.spellings)) {
+      walk.tables.push({ schema, table: name })
+    }
+  }
+
+  const defaultSchema =
+    dialect === 'mysql' ? (database || '').toLowerCase() : DEFAULT_SCHEMA[dialect]
+
+  const tables = new Set<string>()
+  for (const ref of walk.tables) {
+    let schema = ref.schema
+
+    // T-SQL: db.schema.table arrives as schema "db.schema"
+    if (schema && dialect === 'mssql' && schema.includes('.')) {
+      const [db, rest] = schema.split('.', 2)
+      if (database && db.toLowerCase() === database.toLowerCase()) {
+        schema = rest || DEFAULT_SCHEMA.mssql
+      }
+    }
+
+    const isDefault = dialect === 'postgresql' ? schema === defaultSchema : schema?.toLowerCase() === defaultSchema
+    tables.add(!schema || isDefault ? ref.table : `${schema}.${ref.table}`)
+  }
+
+  return [...tables]
+}
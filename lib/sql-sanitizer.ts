@@ -1,60 +1,272 @@
 /**
- * SQL Sanitizer — blocks destructive queries
- * Only SELECT statements are allowed through the MCP gateway.
+ * SQL Sanitizer — only read-only queries reach the customer's database
+ *
+ * execute_sql is validated on the parsed statement, not its text, so
+ * keywords inside string literals, quoted identifiers ("update_count")
+ * and comments no longer trip it, while read-shaped statements that
+ * write or lock (SELECT ... INTO, FOR UPDATE, pg_sleep) are rejected.
  */
 
-const BLOCKED_KEYWORDS = [
-  'INSERT',
-  'UPDATE',
-  'DELETE',
-  'DROP',
-  'TRUNCATE',
-  'ALTER',
-  'CREATE',
-  'GRANT',
-  'REVOKE',
-  'EXEC',
-  'EXECUTE',
-]
+import { parseSql, referencedTables } from '@/lib/sql-parser'
+import type { SqlDialect } from '@/lib/sql-parser'
+import { resolveSqlDenylist, findDenylistedWord } from '@/lib/sql-denylist'
+import type { SqlDenylist, SqlDenylistOverrides } from '@/lib/sql-denylist'
+
+export type SqlRejectionCode =
+  | 'empty'
+  | 'parse_error'
+  | 'multiple_statements'
+  | 'not_read_only'
+  | 'blocked_function'
+  | 'blocked_clause'
+  | 'table_not_allowed'
 
 export interface SanitizeResult {
   safe: boolean
   reason?: string
+  /** Machine-readable rejection reason, set whenever safe is false. */
+  code?: SqlRejectionCode
+  /** The accepted statement with any trailing semicolon removed. */
+  statement?: string
+}
+
+/** Statement types that may not appear anywhere in a query, e.g. inside a CTE. */
+const WRITE_STATEMENT_TYPES = new Set([
+  'insert',
+  'replace',
+  'update',
+  'delete',
+  'merge',
+  'create',
+  'drop',
+  'alter',
+  'truncate',
+  'rename',
+  'grant',
+  'revoke',
+])
+
+function reject(code: SqlRejectionCode, reason: string): SanitizeResult {
+  return { safe: false, code, reason }
+}
+
+/** Last part of a parsed function name (`public.pg_sleep` → `pg_sleep`), lowercased. */
+function functionName(node: any): string | null {
+  const name = node.name
+  if (typeof name === 'string') return name.toLowerCase()
+  const parts = name?.name
+  if (Array.isArray(parts) && parts.length > 0) {
+    const last = parts[parts.length - 1]?.value
+    return typeof last === 'string' ? last.toLowerCase() : null
+  }
+  return null
+}
+
+/** Denylist rejection, phrased like withSqlHint so the AI rewrites instead of retrying. */
+function blocked(code: SqlRejectionCode, what: string, hint: string): SanitizeResult {
+  return reject(code, `${what} is blocked on this endpoint — Hint: ${hint}`)
 }
 
-export function sanitizeSql(sql: string): SanitizeResult {
+/** Walk every node of a parsed statement and return the first violation. */
+function findViolation(node: unknown, denylist: SqlDenylist): SanitizeResult | null {
+  if (!node || typeof node !== 'object') return null
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const violation = findViolation(child, denylist)
+      if (violation) return violation
+    }
+    return null
+  }
+
+  const n = node as any
+
+  if (typeof n.type === 'string' && WRITE_STATEMENT_TYPES.has(n.type)) {
+    return reject('not_read_only', `${n.type.toUpperCase()} is not allowed — only read-only SELECT queries can run`)
+  }
+
+  if (n.type === 'select' && n.into?.position) {
+    const clause = n.into.keyword ? `INTO ${String(n.into.keyword).toUpperCase()}` : 'INTO'
+    if (denylist.has(clause)) {
+      return blocked('blocked_clause', `SELECT ... ${clause}`, 'drop the INTO clause; execute_sql returns the rows directly.')
+    }
+  }
+
+  if (n.locking_read) {
+    const lock = String(n.locking_read).toUpperCase().replace(/\s+/g, ' ')
+    const clause = [...denylist].find((entry) => lock.startsWith(entry))
+    if (clause) {
+      return blocked('blocked_clause', clause, 'drop the locking clause; reading rows doesn\'t need locks.')
+    }
+  }
+
+  // T-SQL table hints: WITH (UPDLOCK, ...)
+  if (Array.isArray(n.table_hint?.expr)) {
+    for (const hint of n.table_hint.expr) {
+      const value = String(hint?.expr?.value ?? '').toUpperCase()
+      if (denylist.has(value)) {
+        return blocked('blocked_clause', `Table hint ${value}`, `remove ${value} from the WITH (...) hints.`)
+      }
+    }
+  }
+
+  if (n.type === 'function' || n.type === 'aggr_func') {
+    const name = functionName(n)
+    if (name && denylist.has(name.toUpperCase())) {
+      return blocked('blocked_function', `Function ${name}()`, `rewrite the query without ${name}().`)
+    }
+  }
+
+  for (const value of Object.values(n)) {
+    const violation = findViolation(value, denylist)
+    if (violation) return violation
+  }
+  return null
+}
+
+/**
+ * Validate a raw execute_sql query for `dialect`: exactly one statement,
+ * a SELECT (CTEs and set operations included), with no nested write and
+ * nothing from the endpoint's denylist (see lib/sql-denylist.ts)
+ * anywhere in it. Comments and a trailing semicolon are fine. Fails
+ * closed on syntax the parser can't read.
+ */
+export function sanitizeSql(
+  sql: string,
+  dialect: SqlDialect,
+  denylistOverrides?: SqlDenylistOverrides | null
+): SanitizeResult {
   if (!sql || typeof sql !== 'string') {
-    return { safe: false, reason: 'SQL query is required' }
+    return reject('empty', 'SQL query is required')
+  }
+
+  const statement = sql.trim().replace(/;+\s*$/, '')
+
+  if (statement.length === 0) {
+    return reject('empty', 'SQL query is empty')
   }
 
-  const trimmed = sql.trim()
+  const denylist = resolveSqlDenylist(dialect, denylistOverrides)
+
+  let statements: unknown[]
+  try {
+    statements = parseSql(statement, dialect).statements
+  } catch (err: any) {
+    const found = findDenylistedWord(statement, dialect, denylist)
+    if (found) {
+      const what = found.isFunction ? `${found.word}()` : found.word
+      return blocked(
+        found.isFunction ? 'blocked_function' : 'blocked_clause',
+        found.isFunction ? `Function ${what}` : what,
+        `rewrite the query as a plain SELECT without ${what}.`
+      )
+    }
+    // The parser's own message lists every expected token — the position is the useful part
+    const at = err?.location?.start
+    const where = at ? ` near line ${at.line}, column ${at.column}` : ''
+    return reject(
+      'parse_error',
+      `Could not parse the query as a single read-only SELECT (syntax error${where}). Locking clauses such as FOR UPDATE and procedure calls are not allowed.`
+    )
+  }
+
+  if (statements.length !== 1) {
+    return reject('multiple_statements', 'Only a single statement is allowed per call')
+  }
+
+  const [ast] = statements as any[]
+  if (ast?.type !== 'select') {
+    const type = typeof ast?.type === 'string' ? ast.type.toUpperCase() : 'This statement'
+    return reject('not_read_only', `${type} is not allowed — only read-only SELECT queries can run`)
+  }
+
+  const violation = findViolation(ast, denylist)
+  if (violation) return violation
+
+  return { safe: true, statement }
+}
+
+/**
+ * Functions that read tables, files or other servers named in a string
+ * argument, which referencedTables can't see. Rejected whenever
+ * allowed_tables is set, whatever the endpoint's sql_denylist allows.
+ */
+const TABLE_SCOPE_BYPASS: Record<SqlDialect, RegExp[]> = {
+  postgresql: [/^(query|table|schema|database|cursor)_to_xml/, /^dblink/, /^(lo_get|lo_export|lo_open|loread)$/],
+  mysql: [],
+  mssql: [/^(openrowset|openquery|opendatasource)$/],
+}
+
+function findScopeBypass(node: unknown, patterns: RegExp[]): string | null {
+  if (!node || typeof node !== 'object') return null
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findScopeBypass(child, patterns)
+      if (found) return found
+    }
+    return null
+  }
 
-  if (trimmed.length === 0) {
-    return { safe: false, reason: 'SQL query is empty' }
+  const n = node as any
+  if (n.type === 'function' || n.type === 'aggr_func') {
+    const name = functionName(n)
+    if (name && patterns.some((pattern) => pattern.test(name))) return name
   }
 
-  // Must start with SELECT (or WITH for CTEs)
-  const upper = trimmed.toUpperCase()
-  if (!upper.startsWith('SELECT') && !upper.startsWith('WITH')) {
-    return { safe: false, reason: 'Only SELECT queries are allowed' }
+  for (const value of Object.values(n)) {
+    const found = findScopeBypass(value, patterns)
+    if (found) return found
   }
+  return null
+}
 
-  // Block destructive keywords (whole-word match)
-  for (const keyword of BLOCKED_KEYWORDS) {
-    const regex = new RegExp(`\\b${keyword}\\b`, 'i')
-    if (regex.test(sql)) {
-      return { safe: false, reason: `Blocked keyword found: ${keyword}` }
+/**
+ * Enforce a credential's allowed_tables on raw execute_sql. Every relation
+ * the query reads — through joins, subqueries, CTE bodies, UNIONs and
+ * schema-qualified names — must be in the allow list, and functions that
+ * read by name from a string (TABLE_SCOPE_BYPASS) are refused. Fails
+ * closed: if the query can't be parsed we can't prove what it reads, so
+ * it's rejected.
+ */
+export function checkTableAccess(
+  sql: string,
+  dialect: SqlDialect,
+  allowedTables: string[],
+  database?: string
+): SanitizeResult {
+  let tables: string[]
+  let bypass: string | null
+  try {
+    const parsed = parseSql(sql, dialect)
+    tables = referencedTables(parsed, dialect, database)
+    bypass = findScopeBypass(parsed.statements, TABLE_SCOPE_BYPASS[dialect])
+  } catch {
+    return {
+      safe: false,
+      code: 'parse_error',
+      reason:
+        'Access denied: could not parse the query to verify table access. This connection is restricted to specific tables — use query_table, or simplify the SQL.',
     }
   }
 
-  // Block semicolons (prevent multiple statements)
-  if (sql.includes(';')) {
-    return { safe: false, reason: 'Multiple statements not allowed (semicolons are blocked)' }
+  if (bypass) {
+    return {
+      safe: false,
+      code: 'table_not_allowed',
+      reason: `Access denied: ${bypass}() is not allowed on a connection restricted to specific tables`,
+    }
   }
 
-  // Block comments that could hide malicious SQL
-  if (sql.includes('--') || sql.includes('/*')) {
-    return { safe: false, reason: 'SQL comments are not allowed' }
+  // PostgreSQL names are case-sensitive once resolved ("Users" isn't
+  // users); MySQL and SQL Server match them case-insensitively
+  const fold = (name: string) => (dialect === 'postgresql' ? name : name.toLowerCase())
+  const allowed = new Set(allowedTables.map(fold))
+  const denied = tables.find((t) => !allowed.has(fold(t)))
+  if (denied) {
+    return {
+      safe: false,
+      code: 'table_not_allowed',
+      reason: `Access denied: table '${denied}' is not in the allowed list`,
+    }
   }
 
   return { safe: true }
@@ -76,24 +288,192 @@ export function withSqlHint(message?: string): string {
   return msg
 }
 
+/** Longest single cell returned; longer values are cut with a marker. */
+export const MAX_CELL_BYTES = 4 * 1024
+
+/** Response budget per tool call; rows past it are dropped. */
+export const MAX_RESULT_BYTES = 256 * 1024
+
+const ROW_HINT = 'Add a LIMIT clause or use an aggregate query (COUNT, GROUP BY) to narrow the result.'
+const SIZE_HINT =
+  'Select only the columns you need, and use LEFT()/SUBSTRING() on long text or JSON columns instead of selecting them whole.'
+
+function truncatedText(text: string, originalBytes: number, kind: string): string {
+  // Cut on a byte boundary, dropping a multi-byte character split in half
+  const head = Buffer.from(text).subarray(0, MAX_CELL_BYTES).toString().replace(/\uFFFD$/, '')
+  return `${head}…[truncated ${kind}, ${originalBytes} bytes]`
+}
+
+/**
+ * Cut one oversized cell: long text, binary (rendered as hex, so it
+ * counts double) or a JSON document. Returns the value unchanged when
+ * it fits.
+ */
+function capCell(value: unknown): { value: unknown; bytes: number; truncated: boolean } {
+  if (typeof value === 'string') {
+    const bytes = Buffer.byteLength(value)
+    return bytes > MAX_CELL_BYTES
+      ? { value: truncatedText(value, bytes, 'text'), bytes: MAX_CELL_BYTES, truncated: true }
+      : { value, bytes, truncated: false }
+  }
+  if (value instanceof Uint8Array) {
+    if (value.length * 2 <= MAX_CELL_BYTES) return { value, bytes: value.length * 2, truncated: false }
+    const head = Buffer.from(value.subarray(0, MAX_CELL_BYTES / 2)).toString('hex')
+    return {
+      value: `0x${head}…[truncated binary, ${value.length} bytes]`,
+      bytes: MAX_CELL_BYTES,
+      truncated: true,
+    }
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const json = JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v)) ?? ''
+    const bytes = Buffer.byteLength(json)
+    return bytes > MAX_CELL_BYTES
+      ? { value: truncatedText(json, bytes, 'JSON'), bytes: MAX_CELL_BYTES, truncated: true }
+      : { value, bytes, truncated: false }
+  }
+  return { value, bytes: String(value).length, truncated: false }
+}
+
 /**
- * Cap raw execute_sql results at maxRows. Uncapped results from a
- * missing LIMIT can balloon the response (memory pressure on the
- * gateway, wasted tokens in the client's context). The truncation
- * notice tells the AI to add a LIMIT or aggregate instead.
+ * `statement` (sanitizeSql's) limited on the database to the page
+ * starting at `offset`, plus one row so capSqlResult can tell there's
+ * more. Null when the query brings its own LIMIT, OFFSET or TOP, or a
+ * clause an appended limit would clash with (MySQL locking reads and
+ * INTO, T-SQL FOR JSON/XML, T-SQL set operations or DISTINCT without
+ * ORDER BY); the whole result is then read and paged in memory.
  */
-export function capSqlResult(result: any, maxRows: number): any {
-  if (!Array.isArray(result) || result.length <= maxRows) {
+export function pageSql(
+  statement: string,
+  dialect: SqlDialect,
+  offset: number,
+  maxRows: number
+): string | null {
+  let ast: any
+  try {
+    ast = parseSql(statement, dialect).statements[0]
+  } catch {
+    return null
+  }
+
+  // Set operations chain their SELECTs through _next
+  const selects: any[] = []
+  for (let node = ast; node; node = node._next) selects.push(node)
+
+  const limited = selects.some(
+    (node) =>
+      node.limit?.value?.length > 0 ||
+      node.limit?.offset ||
+      node.limit?.fetch ||
+      node.top ||
+      node.locking_read ||
+      node.into?.position ||
+      node.for
+  )
+  if (limited) return null
+
+  // On its own line, so a trailing -- comment can't swallow it
+  if (dialect !== 'mssql') {
+    return `${statement}\nLIMIT ${maxRows + 1} OFFSET ${offset}`
+  }
+
+  // OFFSET ... FETCH needs an ORDER BY; (SELECT NULL) keeps the query's
+  // own order, but isn't valid after DISTINCT or a set operation
+  const fetch = `OFFSET ${offset} ROWS FETCH NEXT ${maxRows + 1} ROWS ONLY`
+  if (selects.some((node) => node.orderby)) return `${statement}\n${fetch}`
+  const distinct = typeof ast.distinct === 'string' ? ast.distinct : ast.distinct?.type
+  if (selects.length > 1 || distinct) return null
+  return `${statement}\nORDER BY (SELECT NULL) ${fetch}`
+}
+
+/**
+ * Cap SQL tool results at maxRows and MAX_RESULT_BYTES, and cut cells
+ * over MAX_CELL_BYTES. Uncapped results from a missing LIMIT — or a
+ * few hundred rows of JSON documents or blobs — can balloon the
+ * response (memory pressure on the gateway, wasted tokens in the
+ * client's context). The truncation notice tells the AI how to narrow
+ * the query instead.
+ *
+ * `offset` is where the page starts in the full result (a fetch_more
+ * page). Rows before it are skipped here, unless `paged` says the
+ * query already started at it (pageSql). When rows are dropped,
+ * next_offset is where the following page starts.
+ */
+export function capSqlResult(result: any, maxRows: number, offset = 0, paged = false): any {
+  if (!Array.isArray(result)) {
     return result
   }
+  const page = offset > 0 && !paged ? result.slice(offset) : result
+  // A paged query stops one row past the page, so its total is unknown
+  const ofTotal = paged ? '' : ` of ${page.length}`
+
+  const rows: any[] = []
+  let totalBytes = 0
+  let truncatedCells = 0
+  let overBudget = false
+
+  for (const row of page.slice(0, maxRows)) {
+    if (!row || typeof row !== 'object') {
+      rows.push(row)
+      continue
+    }
+    const capped: Record<string, unknown> = {}
+    let rowBytes = 0
+    let rowTruncatedCells = 0
+    for (const [column, value] of Object.entries(row)) {
+      const cell = capCell(value)
+      capped[column] = cell.value
+      rowBytes += column.length + cell.bytes
+      if (cell.truncated) rowTruncatedCells++
+    }
+    // Always return at least one row, so paging can't stall
+    if (rows.length > 0 && totalBytes + rowBytes > MAX_RESULT_BYTES) {
+      overBudget = true
+      break
+    }
+    totalBytes += rowBytes
+    truncatedCells += rowTruncatedCells
+    rows.push(capped)
+  }
+
+  if (rows.length === page.length && truncatedCells === 0) {
+    return page
+  }
+
+  const notices: string[] = []
+  if (rows.length < page.length) {
+    notices.push(
+      overBudget
+        ? `Result truncated to ${rows.length}${ofTotal} rows to stay under ${MAX_RESULT_BYTES / 1024} KB.`
+        : `Result truncated to ${maxRows}${ofTotal} rows.`
+    )
+  }
+  if (truncatedCells > 0) {
+    notices.push(
+      `${truncatedCells} value${truncatedCells === 1 ? ' was' : 's were'} longer than ${MAX_CELL_BYTES / 1024} KB and cut short (marked …[truncated]).`
+    )
+  }
+  if (page.length > maxRows) notices.push(ROW_HINT)
+  if (overBudget || truncatedCells > 0) notices.push(SIZE_HINT)
+
   return {
     truncated: true,
-    notice: `Result truncated to ${maxRows} of ${result.length} rows. Add a LIMIT clause or use an aggregate query (COUNT, GROUP BY) to narrow the result.`,
-    row_count: maxRows,
-    rows: result.slice(0, maxRows),
+    notice: notices.join(' '),
+    row_count: rows.length,
+    rows,
+    ...(rows.length < page.length ? { next_offset: offset + rows.length } : {}),
   }
 }
 
+/** query_table's result, under the same size caps as execute_sql. */
+export function capTableRows(table: string, rows: any[], maxRows: number) {
+  const capped = capSqlResult(rows, maxRows)
+  if (Array.isArray(capped)) return { table, row_count: rows.length, rows }
+  // query_table pages with its own offset argument, not fetch_more
+  const { next_offset: _, ...rest } = capped
+  return { table, ...rest }
+}
+
 /**
  * Sanitize a table name to prevent SQL injection
  * Only allows alphanumeric, underscores, and dots (for schema.table)
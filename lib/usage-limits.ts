@@ -131,8 +131,44 @@ export async function canCreateCredential(organizationId: string): Promise<Usage
   return { allowed: true, current: currentCount, limit: limits.max_credentials }
 }
 
-// Check if organization has exceeded daily request limit
-export async function canMakeRequest(organizationId: string): Promise<UsageCheck> {
+/** The current UTC day as YYYY-MM-DD — the usage_counters.usage_date key. */
+export function usageDateUTC(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/** An organization's MCP requests today (UTC), in total and per live endpoint, from usage_counters. */
+export async function getTodayUsage(
+  organizationId: string
+): Promise<{ total: number; byEndpoint: Record<string, number> }> {
+  const admin = createAdminClient()
+
+  const { data } = await admin
+    .from('usage_counters')
+    .select('endpoint_id, request_count')
+    .eq('organization_id', organizationId)
+    .eq('usage_date', usageDateUTC())
+
+  const byEndpoint: Record<string, number> = {}
+  let total = 0
+  for (const row of data || []) {
+    // Rows of deleted endpoints (endpoint_id NULL) still count toward the total
+    if (row.endpoint_id) byEndpoint[row.endpoint_id] = row.request_count
+    total += row.request_count
+  }
+  return { total, byEndpoint }
+}
+
+/**
+ * Check if organization has exceeded its daily request limit (UTC day).
+ *
+ * With `endpointId`, the request is also admitted: the limit check and
+ * the counter increment happen atomically in consume_usage_counter, so
+ * parallel calls can't all pass. Without it, this is a read-only check.
+ */
+export async function canMakeRequest(
+  organizationId: string,
+  endpointId?: string
+): Promise<UsageCheck> {
   const admin = createAdminClient()
 
   // Get organization plan
@@ -160,22 +196,37 @@ export async function canMakeRequest(organizationId: string): Promise<UsageCheck
 
   const limits = PLAN_LIMITS[plan]
 
+  if (endpointId) {
+    const { data, error } = await admin.rpc('consume_usage_counter', {
+      p_organization_id: organizationId,
+      p_endpoint_id: endpointId,
+      p_daily_limit: limits.daily_requests,
+    })
+    if (error) {
+      // Don't take every endpoint down over a counter write; the old
+      // usage_logs count failed open the same way.
+      console.error('consume_usage_counter failed:', error.message)
+      return { allowed: true, limit: limits.daily_requests }
+    }
+
+    const { allowed, used } = (Array.isArray(data) ? data[0] : data) || { allowed: false, used: 0 }
+    if (!allowed) {
+      return {
+        allowed: false,
+        reason: `Daily limit exceeded: ${used}/${limits.daily_requests} requests`,
+        current: used,
+        limit: limits.daily_requests,
+      }
+    }
+    return { allowed: true, current: used, limit: limits.daily_requests }
+  }
+
   // Unlimited requests
   if (limits.daily_requests === -1) {
     return { allowed: true }
   }
 
-  // Count requests today
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-
-  const { count } = await admin
-    .from('usage_logs')
-    .select('*', { count: 'exact', head: true })
-    .eq('organization_id', organizationId)
-    .gte('created_at', today.toISOString())
-
-  const currentCount = count || 0
+  const { total: currentCount } = await getTodayUsage(organizationId)
 
   if (currentCount >= limits.daily_requests) {
     return {
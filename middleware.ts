@@ -1,14 +1,10 @@
 import { type NextRequest, NextResponse } from 'next/server'
 import { updateSession } from '@/lib/supabase/middleware'
+import { sameOriginPath } from '@/lib/public-origin'
 
 export async function middleware(request: NextRequest) {
   const { supabaseResponse, user } = await updateSession(request)
 
-  // Redirect old endpoints route to connections page
-  if (request.nextUrl.pathname === '/dashboard/endpoints') {
-    return NextResponse.redirect(new URL('/dashboard/credentials', request.url))
-  }
-
   // Root URL on the app subdomain has no business serving a landing page —
   // signed-in users belong on /dashboard, everyone else belongs on the
   // marketing site. This dodges the legacy "Coming Soon" placeholder
@@ -30,9 +26,18 @@ export async function middleware(request: NextRequest) {
     }
   }
 
+  // OAuth consent screen: sign in first, then come back with the full
+  // authorization request intact
+  if (request.nextUrl.pathname.startsWith('/oauth') && !user) {
+    const redirectUrl = new URL('/login', request.url)
+    redirectUrl.searchParams.set('redirect', request.nextUrl.pathname + request.nextUrl.search)
+    return NextResponse.redirect(redirectUrl)
+  }
+
   // Redirect logged-in users away from login page
   if (request.nextUrl.pathname === '/login' && user) {
-    return NextResponse.redirect(new URL('/dashboard', request.url))
+    const target = sameOriginPath(request.nextUrl.searchParams.get('redirect'), request.nextUrl.origin)
+    return NextResponse.redirect(new URL(target, request.url))
   }
 
   return supabaseResponse
@@ -0,0 +1,22 @@
+-- Static bearer keys for MCP endpoints (lib/api-keys.ts).
+--
+-- An endpoint with api_key_required = true rejects requests without an
+-- `Authorization: Bearer syn_...` header naming an unrevoked, unexpired
+-- key scoped to that endpoint. The URL is still needed too. Keys are
+-- stored as SHA-256 hashes; key_prefix is the part shown in the
+-- dashboard so a key can be recognised after creation.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS api_key_required BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN mcp_endpoints.api_key_required IS
+  'Require an API key (api_keys) scoped to this endpoint on every MCP request.';
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS endpoint_ids JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN api_keys.endpoint_ids IS
+  'IDs of the mcp_endpoints this key opens.';
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_organization ON api_keys(organization_id, created_at DESC);
@@ -0,0 +1,18 @@
+-- Allow response_status='cancelled' on usage_logs.
+-- Run this in your Supabase SQL Editor.
+--
+-- Context: the MCP gateway now cancels a running tool call's query on
+-- the database server when the client sends notifications/cancelled or
+-- disconnects. Those calls are logged as 'cancelled' so they aren't
+-- mistaken for query errors.
+--
+-- Safe to run on existing data: no rows are modified, and every
+-- current value remains within the allowed set.
+
+ALTER TABLE usage_logs DROP CONSTRAINT IF EXISTS usage_logs_response_status_check;
+ALTER TABLE usage_logs ADD CONSTRAINT usage_logs_response_status_check
+  CHECK (response_status = ANY (ARRAY[
+    'success'::text,
+    'error'::text,
+    'cancelled'::text
+  ]));
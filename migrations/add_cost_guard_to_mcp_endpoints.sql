@@ -0,0 +1,26 @@
+-- EXPLAIN-based cost guard for execute_sql (lib/sql-cost-guard.ts).
+--
+-- With 120s statement timeouts, one careless AI-generated cross join can
+-- load a customer's production database for two minutes. When enabled,
+-- the SQL handlers run EXPLAIN (Postgres/MySQL) or SHOWPLAN_XML (SQL
+-- Server) first and compare the planner's estimates to these limits:
+--   off    — no pre-flight (default)
+--   warn   — run the query, attach a cost_warning to the result
+--   reject — refuse the query with a hint to filter or aggregate
+-- Cost units are the database's own (Postgres total cost, MySQL
+-- query_cost, SQL Server estimated subtree cost), so set max_cost per
+-- dialect. A NULL limit is not checked.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS cost_guard_mode TEXT NOT NULL DEFAULT 'off',
+  ADD COLUMN IF NOT EXISTS cost_guard_max_rows BIGINT,
+  ADD COLUMN IF NOT EXISTS cost_guard_max_cost NUMERIC;
+
+ALTER TABLE mcp_endpoints DROP CONSTRAINT IF EXISTS mcp_endpoints_cost_guard_mode_check;
+ALTER TABLE mcp_endpoints ADD CONSTRAINT mcp_endpoints_cost_guard_mode_check
+  CHECK (cost_guard_mode IN ('off', 'warn', 'reject'));
+
+COMMENT ON COLUMN mcp_endpoints.cost_guard_mode IS 'execute_sql EXPLAIN pre-flight: off, warn, or reject.';
+COMMENT ON COLUMN mcp_endpoints.cost_guard_max_rows IS 'Reject/warn when the planner estimates more result rows than this. NULL = unchecked.';
+COMMENT ON COLUMN mcp_endpoints.cost_guard_max_cost IS 'Reject/warn when the planner cost exceeds this (database-specific units). NULL = unchecked.';
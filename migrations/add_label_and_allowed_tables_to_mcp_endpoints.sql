@@ -0,0 +1,18 @@
+-- Endpoint labels and per-endpoint table scopes.
+--
+-- A credential can now have several endpoints, each with its own tool
+-- subset (allowed_tools) and table scope, e.g. a query_table-only
+-- endpoint for a contractor limited to two tables:
+--   allowed_tools  = ["query_table"]
+--   allowed_tables = ["orders", "customers"]
+-- allowed_tables narrows the credential's own allowed_tables; the
+-- gateway uses the intersection. NULL = every table the credential
+-- allows. The label is shown in the dashboard only.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS label TEXT,
+  ADD COLUMN IF NOT EXISTS allowed_tables JSONB;
+
+COMMENT ON COLUMN mcp_endpoints.label IS 'Dashboard name for the endpoint, e.g. "Contractor – read only".';
+COMMENT ON COLUMN mcp_endpoints.allowed_tables IS 'Table names the endpoint may use, within the credential''s allowed_tables. NULL = no extra restriction.';
@@ -0,0 +1,14 @@
+-- Per-endpoint rate limiting (lib/endpoint-rate-limit.ts).
+--
+-- mcp_endpoints.rate_limit (calls per minute, default 100) has existed
+-- since launch but was never enforced. The MCP gateway now enforces it
+-- per endpoint, together with this new cap on tool calls in flight at
+-- once, so a runaway agent loop on one connection can't exhaust the
+-- organization's daily quota. Both are editable on the Endpoints page.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS max_concurrent_calls INTEGER NOT NULL DEFAULT 5;
+
+COMMENT ON COLUMN mcp_endpoints.rate_limit IS 'Max tool calls per minute for this endpoint.';
+COMMENT ON COLUMN mcp_endpoints.max_concurrent_calls IS 'Max tool calls in flight at once for this endpoint.';
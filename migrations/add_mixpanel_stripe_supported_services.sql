@@ -0,0 +1,54 @@
+-- Add Mixpanel and Stripe to supported_services.
+-- Run this in your Supabase SQL Editor.
+--
+-- Context: the Mixpanel and Stripe MCP handlers (lib/mcp-handlers/mixpanel.ts
+-- and stripe.ts) are now registered in the gateway's service registry, so
+-- credentials for them route to their own tools instead of falling through
+-- to Supabase. These are API connectors, not databases: they have no tables,
+-- so the dashboard hides Table Access and test-connection makes a cheap
+-- read-only API call instead of listing tables.
+--
+-- Supersedes the ad-hoc ADD_SERVICES.sql, which wrote available_tools as a
+-- text[] literal; the column is jsonb.
+
+INSERT INTO supported_services (slug, name, description, icon_url, config_schema, available_tools, is_active)
+VALUES (
+  'mixpanel',
+  'Mixpanel',
+  'Connect your Mixpanel project to query events, funnels, and user profiles via AI.',
+  NULL,
+  '{"fields": [
+    {"key": "project_id", "label": "Project ID", "type": "text", "required": true, "encrypted": false, "placeholder": "1234567"},
+    {"key": "service_account_username", "label": "Service Account Username", "type": "text", "required": true, "encrypted": false, "placeholder": "synra.abc123.mp-service-account"},
+    {"key": "service_account_secret", "label": "Service Account Secret", "type": "password", "required": true, "encrypted": true, "placeholder": "Your service account secret"}
+  ]}'::jsonb,
+  '["query_events", "get_top_events", "get_event_count", "get_funnel", "get_user_profiles"]'::jsonb,
+  true
+)
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  config_schema = EXCLUDED.config_schema,
+  available_tools = EXCLUDED.available_tools,
+  is_active = EXCLUDED.is_active,
+  updated_at = NOW();
+
+INSERT INTO supported_services (slug, name, description, icon_url, config_schema, available_tools, is_active)
+VALUES (
+  'stripe',
+  'Stripe',
+  'Connect your Stripe account to query customers, payments, subscriptions, and revenue via AI.',
+  NULL,
+  '{"fields": [
+    {"key": "secret_key", "label": "Secret Key", "type": "password", "required": true, "encrypted": true, "placeholder": "rk_live_... (restricted key recommended)"}
+  ]}'::jsonb,
+  '["list_customers", "get_customer", "list_charges", "list_subscriptions", "list_invoices", "get_balance", "list_products", "get_revenue_summary"]'::jsonb,
+  true
+)
+ON CONFLICT (slug) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  config_schema = EXCLUDED.config_schema,
+  available_tools = EXCLUDED.available_tools,
+  is_active = EXCLUDED.is_active,
+  updated_at = NOW();
@@ -0,0 +1,16 @@
+-- Per-endpoint network policy (lib/network-policy.ts).
+--
+-- Optional allowlists checked by the MCP gateway before auth or
+-- credential decryption; denials get HTTP 403 and are logged:
+--   {"allowed_cidrs": ["203.0.113.0/24", "2001:db8::/32"],
+--    "allowed_origins": ["https://app.example.com"],
+--    "allowed_user_agents": ["my-agent/"]}
+-- Missing or empty lists allow everything. NULL = no restrictions.
+-- The client IP is read from X-Forwarded-For; set TRUSTED_PROXY_CIDRS
+-- on the app if there are proxies in front of the edge.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS network_policy JSONB;
+
+COMMENT ON COLUMN mcp_endpoints.network_policy IS 'Allowlists: {"allowed_cidrs": [...], "allowed_origins": [...], "allowed_user_agents": [...]}. NULL = no restrictions.';
@@ -0,0 +1,20 @@
+-- Default result encoding for query_table and execute_sql
+-- (lib/result-format.ts).
+--
+-- Pretty-printed JSON repeats every column name on every row; the
+-- compact encodings cut the tokens a large result costs the AI client:
+--   json      — pretty-printed objects, one per row (default)
+--   columnar  — compact JSON, column names once, rows as arrays
+--   csv       — header row plus one line per row
+--   markdown  — pipe table
+-- A tool call's own `format` argument overrides this.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS result_format TEXT NOT NULL DEFAULT 'json';
+
+ALTER TABLE mcp_endpoints DROP CONSTRAINT IF EXISTS mcp_endpoints_result_format_check;
+ALTER TABLE mcp_endpoints ADD CONSTRAINT mcp_endpoints_result_format_check
+  CHECK (result_format IN ('json', 'columnar', 'csv', 'markdown'));
+
+COMMENT ON COLUMN mcp_endpoints.result_format IS 'Default format of query_table / execute_sql results: json, columnar, csv, or markdown.';
@@ -0,0 +1,14 @@
+-- Per-endpoint overrides for the execute_sql denylist (lib/sql-denylist.ts).
+--
+-- Every SQL endpoint rejects a maintained per-dialect list of dangerous
+-- functions and clauses (pg_sleep, dblink, LOAD_FILE, OPENROWSET, INTO
+-- OUTFILE, ...). This column lets a single endpoint extend that list or
+-- opt back into specific entries, e.g.:
+--   {"deny": ["pg_stat_statements_reset"], "allow": ["nextval"]}
+-- NULL = dialect defaults.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS sql_denylist JSONB;
+
+COMMENT ON COLUMN mcp_endpoints.sql_denylist IS 'execute_sql denylist overrides: {"deny": [...], "allow": [...]}. NULL = dialect defaults.';
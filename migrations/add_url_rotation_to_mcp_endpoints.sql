@@ -0,0 +1,34 @@
+-- Endpoint URL rotation (lib/endpoint-urls.ts).
+--
+-- Rotating gives an endpoint a new URL and keeps the old one working as
+-- previous_endpoint_url until previous_url_expires_at. Tool calls that
+-- arrive on the old URL are logged with via_previous_url and the
+-- client's user-agent, so the dashboard can show which clients still
+-- need the new URL before the old one is revoked.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS previous_endpoint_url TEXT,
+  ADD COLUMN IF NOT EXISTS previous_url_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS url_rotated_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mcp_endpoints_previous_endpoint_url
+  ON mcp_endpoints(previous_endpoint_url)
+  WHERE previous_endpoint_url IS NOT NULL;
+
+COMMENT ON COLUMN mcp_endpoints.previous_endpoint_url IS 'URL before the last rotation; still served until previous_url_expires_at.';
+COMMENT ON COLUMN mcp_endpoints.previous_url_expires_at IS 'End of the old URL''s grace period.';
+COMMENT ON COLUMN mcp_endpoints.url_rotated_at IS 'When the URL was last rotated.';
+
+ALTER TABLE usage_logs
+  ADD COLUMN IF NOT EXISTS endpoint_id UUID REFERENCES mcp_endpoints(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS via_previous_url BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_previous_url
+  ON usage_logs(endpoint_id, created_at DESC)
+  WHERE via_previous_url;
+
+COMMENT ON COLUMN usage_logs.endpoint_id IS 'MCP endpoint the tool call came in on.';
+COMMENT ON COLUMN usage_logs.user_agent IS 'User-Agent header of the MCP request (truncated).';
+COMMENT ON COLUMN usage_logs.via_previous_url IS 'The call used the endpoint''s pre-rotation URL during its grace period.';
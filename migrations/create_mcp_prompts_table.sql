@@ -0,0 +1,26 @@
+-- Per-endpoint MCP prompt templates.
+-- Run this in your Supabase SQL Editor.
+--
+-- Org admins author these in the dashboard (Endpoints → Prompts); the
+-- MCP gateway serves them through prompts/list and prompts/get. The
+-- template uses {{argument}} placeholders and `arguments` holds the
+-- typed argument list: [{"name", "description", "type", "required"}]
+-- with type one of string, number, date, email.
+
+CREATE TABLE IF NOT EXISTS mcp_prompts (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  endpoint_id uuid NOT NULL REFERENCES mcp_endpoints(id) ON DELETE CASCADE,
+  name text NOT NULL,                          -- MCP prompt name, e.g. 'weekly-revenue-review'
+  title text,
+  description text,
+  template text NOT NULL,
+  arguments jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (endpoint_id, name)
+);
+
+-- Service-role access only (gateway + dashboard API routes).
+ALTER TABLE mcp_prompts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,35 @@
+-- MCP sessions (Streamable HTTP Mcp-Session-Id).
+-- Run this in your Supabase SQL Editor.
+--
+-- The gateway mints a session on `initialize` and returns its ID in the
+-- Mcp-Session-Id header. Later requests carrying the ID are validated
+-- against this table; DELETE on the endpoint sets terminated_at. The
+-- negotiated protocol version and the client's clientInfo are stored so
+-- usage can be attributed to client apps via usage_logs.session_id.
+
+CREATE TABLE IF NOT EXISTS mcp_sessions (
+  id text PRIMARY KEY,                         -- Mcp-Session-Id (random UUID)
+  endpoint_id uuid NOT NULL REFERENCES mcp_endpoints(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  protocol_version text NOT NULL,
+  client_name text,                            -- clientInfo.name, e.g. 'claude-ai', 'Cursor'
+  client_version text,                         -- clientInfo.version
+  client_info jsonb,                           -- full clientInfo as sent
+  created_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  terminated_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_endpoint ON mcp_sessions(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_mcp_sessions_org_client ON mcp_sessions(organization_id, client_name);
+
+-- Service-role access only (gateway).
+ALTER TABLE mcp_sessions ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE usage_logs
+  ADD COLUMN IF NOT EXISTS session_id text REFERENCES mcp_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_usage_logs_session ON usage_logs(session_id);
+
+COMMENT ON COLUMN usage_logs.session_id IS
+  'MCP session the call was made in (join mcp_sessions for client_name). Null for session-less clients and support_chat.';
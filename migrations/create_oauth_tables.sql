@@ -0,0 +1,63 @@
+-- OAuth 2.1 for MCP endpoints (lib/oauth.ts).
+-- Run this in your Supabase SQL Editor.
+--
+-- An endpoint with oauth_required = true rejects requests without a
+-- valid bearer token, so a leaked endpoint URL alone no longer grants
+-- access. MCP clients register themselves (oauth_clients, RFC 7591),
+-- send the user through /oauth/authorize to sign in to Synra and approve
+-- (oauth_authorization_codes, PKCE S256 only), and exchange the code for
+-- an access + refresh token pair (oauth_tokens). Codes and tokens are
+-- stored as SHA-256 hashes; the secrets themselves are never stored.
+--
+-- Endpoints default to URL-only access, as before.
+
+ALTER TABLE mcp_endpoints
+  ADD COLUMN IF NOT EXISTS oauth_required BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN mcp_endpoints.oauth_required IS
+  'Require an OAuth bearer token from a member of the endpoint''s organization on every MCP request.';
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+  id text PRIMARY KEY,                         -- client_id (random UUID)
+  client_name text,
+  client_uri text,
+  redirect_uris jsonb NOT NULL,                -- exact-match list
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS oauth_authorization_codes (
+  code_hash text PRIMARY KEY,                  -- SHA-256 of the code
+  client_id text NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  endpoint_id uuid REFERENCES mcp_endpoints(id) ON DELETE CASCADE,  -- from the resource parameter; NULL = any endpoint of the org
+  redirect_uri text NOT NULL,
+  code_challenge text NOT NULL,                -- PKCE S256
+  scope text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS oauth_tokens (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  access_token_hash text NOT NULL UNIQUE,
+  refresh_token_hash text NOT NULL UNIQUE,
+  client_id text NOT NULL REFERENCES oauth_clients(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  endpoint_id uuid REFERENCES mcp_endpoints(id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  expires_at timestamptz NOT NULL,             -- access token
+  refresh_expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,                      -- set when the refresh token is rotated
+  last_used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_oauth_tokens_user ON oauth_tokens(user_id, created_at DESC);
+
+-- Service-role access only (gateway and OAuth routes).
+ALTER TABLE oauth_clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_authorization_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_tokens ENABLE ROW LEVEL SECURITY;
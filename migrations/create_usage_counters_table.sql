@@ -0,0 +1,83 @@
+-- Daily MCP request counters, one row per organization / UTC day / endpoint.
+-- A deleted endpoint's rows stay, with endpoint_id set to NULL, so deleting
+-- an endpoint or credential doesn't hand back the day's quota.
+-- Run this in your Supabase SQL Editor.
+--
+-- Background: canMakeRequest used to run an exact count(*) over usage_logs
+-- for the org on every MCP request. That was slow, it counted support_chat
+-- rows, it used the server's local midnight, and because the usage_logs
+-- insert is fire-and-forget, parallel calls all passed the check before any
+-- of them was logged. The gateway now admits each tool call through
+-- consume_usage_counter(), which checks the plan's daily limit and
+-- increments the counter in one transaction. usage_logs stays the
+-- per-call audit log.
+
+CREATE TABLE IF NOT EXISTS usage_counters (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  usage_date date NOT NULL,                    -- UTC day
+  endpoint_id uuid REFERENCES mcp_endpoints(id) ON DELETE SET NULL,  -- NULL = deleted endpoint
+  request_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, usage_date, endpoint_id)
+);
+
+-- Service-role access only (gateway + dashboard API routes).
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY;
+
+-- Admit one request for an endpoint if the org is under its daily limit.
+-- A per-org advisory lock serializes concurrent admissions, so parallel
+-- calls can't all slip in under the limit. p_daily_limit < 0 = unlimited.
+-- Returns whether the request was admitted and the org's count for today
+-- (including this request when admitted). The sum includes the rows of
+-- deleted endpoints.
+CREATE OR REPLACE FUNCTION consume_usage_counter(
+  p_organization_id uuid,
+  p_endpoint_id uuid,
+  p_daily_limit integer
+)
+RETURNS TABLE (allowed boolean, used integer) AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'UTC')::date;
+  v_used integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('usage_counters:' || p_organization_id::text));
+
+  SELECT COALESCE(SUM(request_count), 0) INTO v_used
+  FROM usage_counters
+  WHERE organization_id = p_organization_id AND usage_date = v_today;
+
+  IF p_daily_limit >= 0 AND v_used >= p_daily_limit THEN
+    RETURN QUERY SELECT false, v_used;
+    RETURN;
+  END IF;
+
+  INSERT INTO usage_counters (organization_id, usage_date, endpoint_id, request_count)
+  VALUES (p_organization_id, v_today, p_endpoint_id, 1)
+  ON CONFLICT (organization_id, usage_date, endpoint_id)
+  DO UPDATE SET request_count = usage_counters.request_count + 1, updated_at = now();
+
+  RETURN QUERY SELECT true, v_used + 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill from usage_logs (MCP tool calls only — support_chat rows are the
+-- in-app assistant, not gateway traffic). Logs only record the credential,
+-- so each is attributed to that credential's oldest endpoint; logs for
+-- deleted credentials have no endpoint and are skipped. Insert-only: a
+-- re-run leaves existing (live) counters alone.
+INSERT INTO usage_counters (organization_id, usage_date, endpoint_id, request_count)
+SELECT
+  l.organization_id,
+  (l.created_at AT TIME ZONE 'UTC')::date,
+  e.id,
+  count(*)
+FROM usage_logs l
+JOIN (
+  SELECT DISTINCT ON (credential_id) id, credential_id
+  FROM mcp_endpoints
+  ORDER BY credential_id, created_at
+) e ON e.credential_id = l.credential_id
+WHERE l.tool_name <> 'support_chat'
+GROUP BY 1, 2, 3
+ON CONFLICT (organization_id, usage_date, endpoint_id) DO NOTHING;
@@ -0,0 +1,27 @@
+-- Keep the day's usage counters when an endpoint is deleted.
+--
+-- usage_counters.endpoint_id was part of the primary key with ON DELETE
+-- CASCADE, so deleting an endpoint (or its credential) deleted today's
+-- counters and handed the quota back to the org. The row now stays with
+-- endpoint_id set to NULL and consume_usage_counter's per-org sum still
+-- counts it. create_usage_counters_table.sql already has this shape for
+-- new installs; this brings existing ones in line. Safe to re-run.
+--
+-- Run this in your Supabase SQL Editor.
+ALTER TABLE usage_counters DROP CONSTRAINT IF EXISTS usage_counters_pkey;
+ALTER TABLE usage_counters ADD COLUMN IF NOT EXISTS id uuid NOT NULL DEFAULT uuid_generate_v4();
+ALTER TABLE usage_counters ADD PRIMARY KEY (id);
+
+ALTER TABLE usage_counters ALTER COLUMN endpoint_id DROP NOT NULL;
+ALTER TABLE usage_counters DROP CONSTRAINT IF EXISTS usage_counters_endpoint_id_fkey;
+ALTER TABLE usage_counters
+  ADD CONSTRAINT usage_counters_endpoint_id_fkey
+  FOREIGN KEY (endpoint_id) REFERENCES mcp_endpoints(id) ON DELETE SET NULL;
+
+-- consume_usage_counter's ON CONFLICT target
+ALTER TABLE usage_counters DROP CONSTRAINT IF EXISTS usage_counters_organization_id_usage_date_endpoint_id_key;
+ALTER TABLE usage_counters
+  ADD CONSTRAINT usage_counters_organization_id_usage_date_endpoint_id_key
+  UNIQUE (organization_id, usage_date, endpoint_id);
+
+COMMENT ON COLUMN usage_counters.endpoint_id IS 'NULL once the endpoint is deleted; the row still counts toward the org''s daily total.';
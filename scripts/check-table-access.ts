@@ -0,0 +1,62 @@
+import { checkTableAccess } from '../lib/sql-sanitizer'
+import type { SqlDialect } from '../lib/sql-parser'
+
+// Regression checks for execute_sql's allowed_tables enforcement. No
+// database needed: npx tsx scripts/check-table-access.ts
+
+const cases: { dialect: SqlDialect; sql: string; allowed: string[]; safe: boolean }[] = [
+  // A CTE only hides tables inside its own scope
+  {
+    dialect: 'postgresql',
+    sql: 'SELECT * FROM secret JOIN (WITH secret AS (SELECT 1 AS a) SELECT a FROM secret) x ON true',
+    allowed: ['users'],
+    safe: false,
+  },
+  {
+    dialect: 'postgresql',
+    sql: 'SELECT * FROM users WHERE id IN (SELECT id FROM secret) AND EXISTS (WITH secret AS (SELECT 1) SELECT 1 FROM secret)',
+    allowed: ['users'],
+    safe: false,
+  },
+  {
+    dialect: 'mysql',
+    sql: 'SELECT * FROM secret WHERE 1 = (WITH secret AS (SELECT 1 AS a) SELECT a FROM secret)',
+    allowed: ['users'],
+    safe: false,
+  },
+  // A non-recursive CTE's body reads the table, not itself or later CTEs
+  { dialect: 'postgresql', sql: 'WITH secret AS (SELECT * FROM secret) SELECT * FROM secret', allowed: ['users'], safe: false },
+  { dialect: 'postgresql', sql: 'WITH a AS (SELECT * FROM b), b AS (SELECT 1) SELECT * FROM a', allowed: ['users'], safe: false },
+  { dialect: 'postgresql', sql: 'WITH x AS (SELECT * FROM users), y AS (SELECT * FROM x) SELECT * FROM y', allowed: ['users'], safe: true },
+  {
+    dialect: 'postgresql',
+    sql: 'WITH RECURSIVE t(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM t WHERE n < 5) SELECT * FROM t',
+    allowed: ['users'],
+    safe: true,
+  },
+  // Quoted PostgreSQL names keep their case; unquoted ones fold to lower case
+  { dialect: 'postgresql', sql: 'SELECT * FROM "Users"', allowed: ['users'], safe: false },
+  { dialect: 'postgresql', sql: 'SELECT * FROM Users', allowed: ['users'], safe: true },
+  { dialect: 'postgresql', sql: 'SELECT * FROM "Users" JOIN Users ON true', allowed: ['users'], safe: false },
+  { dialect: 'postgresql', sql: 'SELECT * FROM public."Users"', allowed: ['Users'], safe: true },
+  { dialect: 'postgresql', sql: 'WITH "Sec" AS (SELECT 1) SELECT * FROM Sec', allowed: ['users'], safe: false },
+  // MySQL and SQL Server names are case-insensitive
+  { dialect: 'mysql', sql: 'SELECT * FROM Users', allowed: ['users'], safe: true },
+  { dialect: 'mssql', sql: 'SELECT * FROM [Users]', allowed: ['users'], safe: true },
+]
+
+let failures = 0
+for (const c of cases) {
+  const result = checkTableAccess(c.sql, c.dialect, c.allowed)
+  if (result.safe !== c.safe) {
+    failures++
+    console.error(`❌ [${c.dialect}] expected ${c.safe ? 'allowed' : 'denied'}: ${c.sql}`)
+    if (!result.safe) console.error(`   ${result.reason}`)
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} of ${cases.length} checks failed`)
+  process.exit(1)
+}
+console.log(`✅ All ${cases.length} table access checks passed`)
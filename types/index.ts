@@ -96,13 +96,87 @@ export interface McpEndpoint {
   credential_id: string;
   service_slug: string;
   endpoint_url: string;
+  previous_endpoint_url: string | null;
+  previous_url_expires_at: string | null;
+  url_rotated_at: string | null;
+  label: string | null;
   is_active: boolean;
   rate_limit: number;
+  max_concurrent_calls: number;
   allowed_tools: string[] | null;
+  allowed_tables: string[] | null;
+  sql_denylist: { deny?: string[]; allow?: string[] } | null;
+  cost_guard_mode: 'off' | 'warn' | 'reject';
+  cost_guard_max_rows: number | null;
+  cost_guard_max_cost: number | null;
+  result_format: 'json' | 'columnar' | 'csv' | 'markdown';
+  oauth_required: boolean;
+  api_key_required: boolean;
+  network_policy: {
+    allowed_cidrs?: string[];
+    allowed_origins?: string[];
+    allowed_user_agents?: string[];
+  } | null;
   created_at: string;
   last_accessed_at: string | null;
 }
 
+export interface McpPrompt {
+  id: string;
+  organization_id: string;
+  endpoint_id: string;
+  name: string;
+  title: string | null;
+  description: string | null;
+  template: string;
+  arguments: {
+    name: string;
+    description?: string;
+    type: 'string' | 'number' | 'date' | 'email';
+    required: boolean;
+  }[];
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface McpSession {
+  id: string;
+  endpoint_id: string;
+  organization_id: string;
+  protocol_version: string;
+  client_name: string | null;
+  client_version: string | null;
+  client_info: Record<string, any> | null;
+  created_at: string;
+  last_seen_at: string;
+  terminated_at: string | null;
+}
+
+export interface OAuthClient {
+  id: string;
+  client_name: string | null;
+  client_uri: string | null;
+  redirect_uris: string[];
+  created_at: string;
+}
+
+export interface OAuthToken {
+  id: string;
+  access_token_hash: string;
+  refresh_token_hash: string;
+  client_id: string;
+  user_id: string;
+  organization_id: string;
+  endpoint_id: string | null;
+  scope: string;
+  expires_at: string;
+  refresh_expires_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
 export interface Subscription {
   id: string;
   organization_id: string;
@@ -145,10 +219,14 @@ export interface UsageLog {
   service_slug: string | null;
   tool_name: string;
   request_data: Record<string, any> | null;
-  response_status: 'success' | 'error';
+  response_status: 'success' | 'error' | 'cancelled';
   error_message: string | null;
   duration_ms: number | null;
   tokens_used: number | null;
+  session_id: string | null;
+  endpoint_id: string | null;
+  user_agent: string | null;
+  via_previous_url: boolean;
   created_at: string;
 }
 
@@ -158,6 +236,7 @@ export interface ApiKey {
   name: string;
   key_hash: string;
   key_prefix: string;
+  endpoint_ids: string[];
   last_used_at: string | null;
   expires_at: string | null;
   created_by: string | null;